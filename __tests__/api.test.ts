@@ -1,6 +1,7 @@
 // __tests__/api.test.ts
 
-import { createJob, constructJobUrl } from '../src/api';
+import { createJob, getJob, getJobResult, waitForJob, constructJobUrl } from '../src/api';
+import { AuthError, NetworkError, RateLimitError, ValidationError } from '../src/errors';
 import { DocHolidayRequest, DocHolidayResponse } from '../src/types';
 import * as core from '@actions/core';
 
@@ -32,6 +33,15 @@ describe('api', () => {
       state: 'requested',
     };
 
+    beforeEach(() => {
+      // No jitter, so retry delays are exact
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
     describe('success cases', () => {
       it('should create job successfully on first attempt', async () => {
         mockFetch.mockResolvedValueOnce({
@@ -53,6 +63,7 @@ describe('api', () => {
               'Content-Type': 'application/json',
             },
             body: JSON.stringify(mockRequest),
+            signal: expect.any(AbortSignal),
           }
         );
         expect(core.info).toHaveBeenCalledWith(
@@ -93,11 +104,105 @@ describe('api', () => {
       });
     });
 
+    describe('custom API base URL', () => {
+      it('should post to the provided API base URL', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: async () => mockResponse,
+        });
+
+        await createJob('test-token', mockRequest, 'https://api.staging.doc.holiday');
+
+        expect(mockFetch).toHaveBeenCalledWith(
+          'https://api.staging.doc.holiday/api/v1/jobs',
+          expect.objectContaining({ method: 'POST' })
+        );
+      });
+    });
+
+    describe('idempotency', () => {
+      it('should send the idempotency key header', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: async () => mockResponse,
+        });
+
+        await createJob('test-token', mockRequest, undefined, { idempotencyKey: 'key-123' });
+
+        expect(mockFetch).toHaveBeenCalledWith(
+          'https://api.doc.holiday/api/v1/jobs',
+          expect.objectContaining({
+            headers: {
+              Authorization: 'Bearer test-token',
+              'Content-Type': 'application/json',
+              'Idempotency-Key': 'key-123',
+            },
+          })
+        );
+      });
+
+      it('should return the existing job on 409', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: false,
+          status: 409,
+          headers: new Headers(),
+          text: async () => JSON.stringify({ job: { ...mockResponse, state: 'running' } }),
+        });
+
+        const result = await createJob('test-token', mockRequest, undefined, { idempotencyKey: 'key-123' });
+
+        expect(result).toEqual({ ...mockResponse, state: 'running' });
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+        expect(core.info).toHaveBeenCalledWith('Job already exists for idempotency key key-123: job-123');
+      });
+
+      it('should fetch the existing job when the 409 body only has its id', async () => {
+        mockFetch
+          .mockResolvedValueOnce({
+            ok: false,
+            status: 409,
+            headers: new Headers(),
+            text: async () => JSON.stringify({ id: 'job-123' }),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            status: 200,
+            json: async () => ({ ...mockResponse, state: 'done' }),
+          });
+
+        const result = await createJob('test-token', mockRequest, undefined, { idempotencyKey: 'key-123' });
+
+        expect(result.state).toBe('done');
+        expect(mockFetch).toHaveBeenLastCalledWith(
+          'https://api.doc.holiday/api/v1/jobs/job-123',
+          expect.objectContaining({ method: 'GET' })
+        );
+      });
+
+      it('should fail on 409 without a job id', async () => {
+        mockFetch.mockReset();
+        mockFetch.mockResolvedValue({
+          ok: false,
+          status: 409,
+          headers: new Headers(),
+          text: async () => 'Conflict',
+        });
+
+        await expect(
+          createJob('test-token', mockRequest, undefined, { idempotencyKey: 'key-123' })
+        ).rejects.toThrow('Doc.holiday API error (409): Conflict');
+      });
+    });
+
     describe('authentication errors (401)', () => {
       it('should throw authentication error without retry on 401', async () => {
         mockFetch.mockResolvedValueOnce({
           ok: false,
           status: 401,
+          headers: new Headers(),
+          text: async () => '',
         });
 
         await expect(createJob('bad-token', mockRequest)).rejects.toThrow(
@@ -112,6 +217,8 @@ describe('api', () => {
         mockFetch.mockResolvedValueOnce({
           ok: false,
           status: 401,
+          headers: new Headers(),
+          text: async () => '',
         });
 
         await expect(createJob('bad-token', mockRequest)).rejects.toThrow(
@@ -128,8 +235,8 @@ describe('api', () => {
       it('should retry on 429 with exponential backoff', async () => {
         // First two attempts: 429, third attempt: success
         mockFetch
-          .mockResolvedValueOnce({ ok: false, status: 429 })
-          .mockResolvedValueOnce({ ok: false, status: 429 })
+          .mockResolvedValueOnce({ ok: false, status: 429, headers: new Headers(), text: async () => '' })
+          .mockResolvedValueOnce({ ok: false, status: 429, headers: new Headers(), text: async () => '' })
           .mockResolvedValueOnce({
             ok: true,
             status: 200,
@@ -151,9 +258,9 @@ describe('api', () => {
       it('should fail after max retries on persistent 429', async () => {
         // All attempts return 429
         mockFetch
-          .mockResolvedValueOnce({ ok: false, status: 429 })
-          .mockResolvedValueOnce({ ok: false, status: 429 })
-          .mockResolvedValueOnce({ ok: false, status: 429 });
+          .mockResolvedValueOnce({ ok: false, status: 429, headers: new Headers(), text: async () => '' })
+          .mockResolvedValueOnce({ ok: false, status: 429, headers: new Headers(), text: async () => '' })
+          .mockResolvedValueOnce({ ok: false, status: 429, headers: new Headers(), text: async () => '' });
 
         await expect(createJob('test-token', mockRequest)).rejects.toThrow(
           'Failed to create job after 3 attempts'
@@ -166,8 +273,8 @@ describe('api', () => {
         const sleepSpy = jest.spyOn(global, 'setTimeout');
 
         mockFetch
-          .mockResolvedValueOnce({ ok: false, status: 429 })
-          .mockResolvedValueOnce({ ok: false, status: 429 })
+          .mockResolvedValueOnce({ ok: false, status: 429, headers: new Headers(), text: async () => '' })
+          .mockResolvedValueOnce({ ok: false, status: 429, headers: new Headers(), text: async () => '' })
           .mockResolvedValueOnce({
             ok: true,
             status: 200,
@@ -185,6 +292,75 @@ describe('api', () => {
       });
     });
 
+    describe('retry policy', () => {
+      it('should honor Retry-After on 429', async () => {
+        mockFetch
+          .mockResolvedValueOnce({ ok: false, status: 429, headers: new Headers({ 'Retry-After': '0' }), text: async () => '' })
+          .mockResolvedValueOnce({
+            ok: true,
+            status: 200,
+            json: async () => mockResponse,
+          });
+
+        await createJob('test-token', mockRequest);
+
+        expect(core.warning).toHaveBeenCalledWith('Rate limited (429). Retrying in 0ms...');
+      });
+
+      it('should retry 408 request timeouts', async () => {
+        mockFetch
+          .mockResolvedValueOnce({
+            ok: false,
+            status: 408,
+            headers: new Headers({ 'Retry-After': '0' }),
+            text: async () => 'Request Timeout',
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            status: 200,
+            json: async () => mockResponse,
+          });
+
+        expect(await createJob('test-token', mockRequest)).toEqual(mockResponse);
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+      });
+
+      it('should explain persistent rate limiting', async () => {
+        mockFetch.mockResolvedValue({ ok: false, status: 429, headers: new Headers({ 'Retry-After': '0' }), text: async () => '' });
+
+        const error = await createJob('test-token', mockRequest, undefined, { maxRetries: 1 }).catch(e => e);
+
+        expect(error).toBeInstanceOf(RateLimitError);
+        expect(error.message).toBe(
+          'Failed to create job after 2 attempts: Rate limited (429). Space out workflow runs or raise max-retries.'
+        );
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+      });
+
+      it('should not retry when max retries is 0', async () => {
+        mockFetch.mockRejectedValue(new Error('Network error'));
+
+        const error = await createJob('test-token', mockRequest, undefined, { maxRetries: 0 }).catch(e => e);
+
+        expect(error).toBeInstanceOf(NetworkError);
+        expect(error.message).toBe('Failed to create job after 1 attempts: Network error');
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+        expect(core.warning).not.toHaveBeenCalled();
+      });
+
+      it('should abort requests that exceed the request timeout', async () => {
+        mockFetch.mockImplementation((_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal!.addEventListener('abort', () => reject(new Error('This operation was aborted')));
+          })
+        );
+
+        await expect(
+          createJob('test-token', mockRequest, undefined, { maxRetries: 0, requestTimeout: 10 })
+        ).rejects.toThrow('Failed to create job after 1 attempts: Request timed out after 0.01s');
+      });
+    });
+
     describe('network errors', () => {
       it('should retry on network error', async () => {
         // First attempt: network error, second attempt: success
@@ -247,16 +423,19 @@ describe('api', () => {
           .mockResolvedValueOnce({
             ok: false,
             status: 500,
+            headers: new Headers(),
             text: async () => 'Internal server error',
           })
           .mockResolvedValueOnce({
             ok: false,
             status: 500,
+            headers: new Headers(),
             text: async () => 'Internal server error',
           })
           .mockResolvedValueOnce({
             ok: false,
             status: 500,
+            headers: new Headers(),
             text: async () => 'Internal server error',
           });
 
@@ -271,6 +450,7 @@ describe('api', () => {
         mockFetch.mockResolvedValue({
           ok: false,
           status: 500,
+          headers: new Headers(),
           text: async () => 'Database connection failed',
         });
 
@@ -286,12 +466,50 @@ describe('api', () => {
         mockFetch.mockResolvedValue({
           ok: false,
           status: 400,
+          headers: new Headers(),
           text: async () => 'Invalid request format',
         });
 
         await expect(createJob('test-token', mockRequest)).rejects.toThrow(
           'Doc.holiday API error (400): Invalid request format'
         );
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+      });
+
+      it('should throw typed errors with the status, body and request id', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: false,
+          status: 422,
+          headers: new Headers({ 'X-Request-Id': 'req-123' }),
+          text: async () => '{"error":"unknown publication"}',
+        });
+
+        const error = await createJob('test-token', mockRequest).catch(e => e);
+
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error).toMatchObject({
+          code: 'validation',
+          status: 422,
+          body: { error: 'unknown publication' },
+          requestId: 'req-123',
+        });
+      });
+
+      it('should not retry 403 and 422 errors', async () => {
+        for (const status of [403, 422]) {
+          mockFetch.mockReset();
+          mockFetch.mockResolvedValue({
+            ok: false,
+            status,
+            headers: new Headers(),
+            text: async () => 'Rejected',
+          });
+
+          await expect(createJob('test-token', mockRequest)).rejects.toThrow(
+            `Doc.holiday API error (${status}): Rejected`
+          );
+          expect(mockFetch).toHaveBeenCalledTimes(1);
+        }
       });
 
       it('should handle 404 not found error', async () => {
@@ -299,6 +517,7 @@ describe('api', () => {
         mockFetch.mockResolvedValue({
           ok: false,
           status: 404,
+          headers: new Headers(),
           text: async () => 'Endpoint not found',
         });
 
@@ -312,6 +531,7 @@ describe('api', () => {
           .mockResolvedValueOnce({
             ok: false,
             status: 503,
+            headers: new Headers(),
             text: async () => 'Service temporarily unavailable',
           })
           .mockResolvedValueOnce({
@@ -327,6 +547,34 @@ describe('api', () => {
       });
     });
 
+    describe('change validation', () => {
+      it('should reject invalid changes without calling the API', async () => {
+        const request = {
+          docRequest: { ...mockRequest.docRequest, changes: [{ commits: { count: 0 } }] },
+        } as DocHolidayRequest;
+
+        await expect(createJob('test-token', request)).rejects.toThrow(
+          'Invalid change at index 0: commits.count must be a positive integer, got 0'
+        );
+        expect(mockFetch).not.toHaveBeenCalled();
+      });
+
+      it('should send valid changes', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: async () => mockResponse,
+        });
+        const request: DocHolidayRequest = {
+          docRequest: { ...mockRequest.docRequest, changes: [{ releases: { count: 1 } }] },
+        };
+
+        await createJob('test-token', request);
+
+        expect(JSON.parse(mockFetch.mock.calls[0][1].body).docRequest.changes).toEqual([{ releases: { count: 1 } }]);
+      });
+    });
+
     describe('response parsing', () => {
       it('should parse JSON response correctly', async () => {
         const customResponse: DocHolidayResponse = {
@@ -371,6 +619,214 @@ describe('api', () => {
     });
   });
 
+  describe('getJob', () => {
+    it('should fetch job status by id', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ id: 'job-123', orgId: 'org-456', type: 'doc', state: 'running' }),
+      });
+
+      const result = await getJob('test-token', 'job-123');
+
+      expect(result.state).toBe('running');
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.doc.holiday/api/v1/jobs/job-123',
+        {
+          method: 'GET',
+          headers: {
+            Authorization: 'Bearer test-token',
+          },
+          signal: expect.any(AbortSignal),
+        }
+      );
+    });
+
+    it('should fetch from the provided API base URL', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ id: 'job-123', orgId: 'org-456', type: 'doc', state: 'done' }),
+      });
+
+      await getJob('test-token', 'job-123', 'http://localhost:8080');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:8080/api/v1/jobs/job-123',
+        expect.objectContaining({ method: 'GET' })
+      );
+    });
+
+    it('should throw authentication error on 401', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 401, headers: new Headers(), text: async () => '' });
+
+      await expect(getJob('bad-token', 'job-123')).rejects.toThrow('Authentication failed');
+      await expect(getJob('bad-token', 'job-123')).rejects.toBeInstanceOf(AuthError);
+    });
+
+    it('should throw API error on other failures', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        headers: new Headers(),
+        text: async () => 'Job not found',
+      });
+
+      await expect(getJob('test-token', 'job-123')).rejects.toThrow(
+        'Doc.holiday API error (404): Job not found'
+      );
+    });
+  });
+
+  describe('getJobResult', () => {
+    it('should fetch the job result', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ id: 'job-123', releaseNotes: '## Notes' }),
+      });
+
+      const result = await getJobResult('test-token', 'job-123');
+
+      expect(result.releaseNotes).toBe('## Notes');
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.doc.holiday/api/v1/jobs/job-123/result',
+        {
+          method: 'GET',
+          headers: {
+            Authorization: 'Bearer test-token',
+          },
+          signal: expect.any(AbortSignal),
+        }
+      );
+    });
+
+    it('should throw a network error when the request fails', async () => {
+      mockFetch.mockRejectedValueOnce(new Error('fetch failed'));
+
+      const error = await getJobResult('test-token', 'job-123').catch(e => e);
+
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error.message).toBe('fetch failed');
+    });
+
+    it('should abort requests that exceed the timeout', async () => {
+      mockFetch.mockImplementationOnce((_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal!.addEventListener('abort', () => reject(new Error('This operation was aborted')));
+        })
+      );
+
+      const error = await getJobResult('test-token', 'job-123', undefined, 10).catch(e => e);
+
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error.message).toBe('Request timed out after 0.01s');
+    });
+
+    it('should throw authentication error on 401', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 401, headers: new Headers(), text: async () => '' });
+
+      await expect(getJobResult('bad-token', 'job-123')).rejects.toThrow('Authentication failed');
+    });
+
+    it('should throw API error on other failures', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 409,
+        headers: new Headers(),
+        text: async () => 'Job not finished',
+      });
+
+      await expect(getJobResult('test-token', 'job-123')).rejects.toThrow(
+        'Doc.holiday API error (409): Job not finished'
+      );
+    });
+  });
+
+  describe('waitForJob', () => {
+    const jobWithState = (state: DocHolidayResponse['state']) => ({
+      ok: true,
+      status: 200,
+      json: async () => ({ id: 'job-123', orgId: 'org-456', type: 'doc', state }),
+    });
+
+    it('should poll until the job is done', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jobWithState('requested'))
+        .mockResolvedValueOnce(jobWithState('running'))
+        .mockResolvedValueOnce(jobWithState('done'));
+
+      const result = await waitForJob('test-token', 'job-123', { pollInterval: 1, timeout: 1000 });
+
+      expect(result.state).toBe('done');
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(core.info).toHaveBeenCalledWith('Job job-123 state: running');
+      expect(core.info).toHaveBeenCalledWith('Job job-123 state: done');
+    });
+
+    it('should return errored jobs without throwing', async () => {
+      mockFetch.mockResolvedValueOnce(jobWithState('errored'));
+
+      const result = await waitForJob('test-token', 'job-123', { pollInterval: 1, timeout: 1000 });
+
+      expect(result.state).toBe('errored');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should poll again after a transient failure', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 502, headers: new Headers(), text: async () => 'Bad Gateway' })
+        .mockRejectedValueOnce(new Error('fetch failed'))
+        .mockResolvedValueOnce(jobWithState('done'));
+
+      const result = await waitForJob('test-token', 'job-123', { pollInterval: 1, timeout: 1000 });
+
+      expect(result.state).toBe('done');
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(core.warning).toHaveBeenCalledWith(
+        'Failed to check job job-123 status, polling again: Doc.holiday API error (502): Bad Gateway'
+      );
+      expect(core.warning).toHaveBeenCalledWith('Failed to check job job-123 status, polling again: fetch failed');
+    });
+
+    it('should stop polling on errors that will not go away', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 404, headers: new Headers(), text: async () => 'Job not found' });
+
+      await expect(waitForJob('test-token', 'job-123', { pollInterval: 1, timeout: 1000 })).rejects.toThrow(
+        'Doc.holiday API error (404): Job not found'
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should time out when status requests keep failing', async () => {
+      mockFetch.mockRejectedValue(new Error('fetch failed'));
+
+      await expect(
+        waitForJob('test-token', 'job-123', { pollInterval: 20, timeout: 50 })
+      ).rejects.toThrow('Timed out after 0.05s waiting for job job-123 to complete (last state: unknown)');
+    });
+
+    it('should abort status requests that hang past the wait timeout', async () => {
+      mockFetch.mockImplementation((_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal!.addEventListener('abort', () => reject(new Error('This operation was aborted')));
+        })
+      );
+
+      await expect(
+        waitForJob('test-token', 'job-123', { pollInterval: 20, timeout: 50 })
+      ).rejects.toThrow('Timed out after 0.05s waiting for job job-123 to complete');
+    });
+
+    it('should time out when the job never finishes', async () => {
+      mockFetch.mockResolvedValue(jobWithState('running'));
+
+      await expect(
+        waitForJob('test-token', 'job-123', { pollInterval: 20, timeout: 50 })
+      ).rejects.toThrow('Timed out after 0.05s waiting for job job-123 to complete (last state: running)');
+    });
+  });
+
   describe('constructJobUrl', () => {
     it('should construct correct job URL', () => {
       const url = constructJobUrl('job-123');
@@ -394,6 +850,12 @@ describe('api', () => {
       expect(constructJobUrl('')).toBe('https://app.doc.holiday/jobs/');
     });
 
+    it('should use the provided app base URL', () => {
+      expect(constructJobUrl('job-123', 'https://app.staging.doc.holiday')).toBe(
+        'https://app.staging.doc.holiday/jobs/job-123'
+      );
+    });
+
     it('should not modify job ID', () => {
       const specialId = 'job-123!@#$%';
       expect(constructJobUrl(specialId)).toBe(
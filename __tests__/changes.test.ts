@@ -1,6 +1,6 @@
 // __tests__/changes.test.ts
 
-import { buildChanges } from '../src/changes';
+import { buildChanges, validateChanges } from '../src/changes';
 import { ChangesetInput } from '../src/types';
 
 describe('buildChanges', () => {
@@ -21,12 +21,11 @@ describe('buildChanges', () => {
       expect(result).toEqual([{ releases: { count: 1 } }]);
     });
 
-    it('should handle releases count of 0', () => {
+    it('should reject a releases count of 0', () => {
       const changeset: ChangesetInput = {
         releasesCount: 0
       };
-      const result = buildChanges(changeset);
-      expect(result).toEqual([{ releases: { count: 0 } }]);
+      expect(() => buildChanges(changeset)).toThrow('releases.count must be a positive integer, got 0');
     });
   });
 
@@ -73,12 +72,11 @@ describe('buildChanges', () => {
       expect(result).toEqual([{ commits: { count: 10 } }]);
     });
 
-    it('should handle commits count of 0', () => {
+    it('should reject a commits count of 0', () => {
       const changeset: ChangesetInput = {
         commitsCount: 0
       };
-      const result = buildChanges(changeset);
-      expect(result).toEqual([{ commits: { count: 0 } }]);
+      expect(() => buildChanges(changeset)).toThrow('commits.count must be a positive integer, got 0');
     });
   });
 
@@ -160,7 +158,7 @@ describe('buildChanges', () => {
         commitsEndSha: 'def456'
       };
       const result = buildChanges(changeset);
-      expect(result[0].commits.includeStartCommit).toBe(true);
+      expect(result).toEqual([{ commits: expect.objectContaining({ includeStartCommit: true }) }]);
     });
 
     it('should respect includeStartCommit when set to false', () => {
@@ -294,23 +292,26 @@ describe('buildChanges', () => {
     });
   });
 
-  describe('priority order when multiple fields are set', () => {
-    it('should prioritize releasesCount over other fields', () => {
+  describe('order when multiple fields are set', () => {
+    it('should place releasesCount before other fields', () => {
       const changeset: ChangesetInput = {
         releasesCount: 3,
         commitsCount: 10,
         tagsStart: 'v1.0.0'
       };
       const result = buildChanges(changeset);
-      expect(result).toEqual([{ releases: { count: 3 } }]);
+      expect(result).toEqual([
+        { releases: { count: 3 } },
+        { commits: { count: 10 } },
+        { tags: { start: 'v1.0.0' } }
+      ]);
     });
 
-    it('should prioritize timeRange over commits when both are set', () => {
+    it('should place timeRange before commits', () => {
       const changeset: ChangesetInput = {
         timeRangeStart: '2025-01-01T00:00:00Z',
         timeRangeEnd: '2025-01-31T23:59:59Z',
-        commitsCount: 10,
-        tagsStart: 'v1.0.0'
+        commitsCount: 10
       };
       const result = buildChanges(changeset);
       expect(result).toEqual([
@@ -319,64 +320,86 @@ describe('buildChanges', () => {
             start: '2025-01-01T00:00:00Z',
             end: '2025-01-31T23:59:59Z'
           }
-        }
+        },
+        { commits: { count: 10 } }
       ]);
     });
 
-    it('should prioritize commitsCount over commitsSinceSha', () => {
+    it('should place commitsCount before commitsSinceSha', () => {
       const changeset: ChangesetInput = {
         commitsCount: 10,
         commitsSinceSha: 'abc123'
       };
       const result = buildChanges(changeset);
-      expect(result).toEqual([{ commits: { count: 10 } }]);
+      expect(result).toEqual([{ commits: { count: 10 } }, { commits: { startSha: 'abc123' } }]);
     });
 
-    it('should prioritize commitsSinceSha over commitsShas array', () => {
+    it('should place commitsShas before commitsRange', () => {
       const changeset: ChangesetInput = {
-        commitsSinceSha: 'abc123',
-        commitsShas: ['def456', '789ghi']
+        commitsShas: ['abc123'],
+        commitsStartSha: 'def456',
+        commitsEndSha: '789ghi'
       };
       const result = buildChanges(changeset);
-      expect(result).toEqual([{ commits: { startSha: 'abc123' } }]);
+      expect(result).toEqual([
+        { commits: { shas: ['abc123'] } },
+        { commits: { startSha: 'def456', endSha: '789ghi', includeStartCommit: true } }
+      ]);
     });
+  });
 
-    it('should prioritize commitsShas array over commitsRange', () => {
+  describe('multiple changesets', () => {
+    it('should emit one change per specified type in a fixed order', () => {
       const changeset: ChangesetInput = {
-        commitsShas: ['abc123'],
-        commitsStartSha: 'def456',
-        commitsEndSha: '789ghi'
+        tagsStart: 'v1.0.0',
+        tagsEnd: 'v1.1.0',
+        commitsShas: ['abc123', 'def456']
       };
       const result = buildChanges(changeset);
-      expect(result).toEqual([{ commits: { shas: ['abc123'] } }]);
+      expect(result).toEqual([
+        { commits: { shas: ['abc123', 'def456'] } },
+        { tags: { start: 'v1.0.0', end: 'v1.1.0' } }
+      ]);
     });
 
-    it('should prioritize commitsRange over tags', () => {
+    it('should append the explicit changes list', () => {
       const changeset: ChangesetInput = {
-        commitsStartSha: 'abc123',
-        commitsEndSha: 'def456',
-        tagsStart: 'v1.0.0'
+        releasesCount: 1,
+        changes: [{ commits: { startSha: 'abc123' } }]
       };
       const result = buildChanges(changeset);
       expect(result).toEqual([
-        {
-          commits: {
-            startSha: 'abc123',
-            endSha: 'def456',
-            includeStartCommit: true
-          }
-        }
+        { releases: { count: 1 } },
+        { commits: { startSha: 'abc123' } }
+      ]);
+    });
+
+    it('should drop duplicate changes regardless of field order', () => {
+      const changeset: ChangesetInput = {
+        tagsStart: 'v1.0.0',
+        tagsEnd: 'v1.1.0',
+        changes: [
+          { tags: { end: 'v1.1.0', start: 'v1.0.0' } },
+          { commits: { shas: ['abc123'] } },
+          { commits: { shas: ['abc123'] } }
+        ]
+      };
+      const result = buildChanges(changeset);
+      expect(result).toEqual([
+        { tags: { start: 'v1.0.0', end: 'v1.1.0' } },
+        { commits: { shas: ['abc123'] } }
       ]);
     });
   });
 
   describe('edge cases with numeric values', () => {
-    it('should handle negative releases count (treated as defined)', () => {
+    it('should reject a negative releases count', () => {
       const changeset: ChangesetInput = {
         releasesCount: -1
       };
-      const result = buildChanges(changeset);
-      expect(result).toEqual([{ releases: { count: -1 } }]);
+      expect(() => buildChanges(changeset)).toThrow(
+        'Invalid change at index 0: releases.count must be a positive integer, got -1'
+      );
     });
 
     it('should handle large releases count', () => {
@@ -388,3 +411,98 @@ describe('buildChanges', () => {
     });
   });
 });
+
+describe('validateChanges', () => {
+  it('should accept every change form', () => {
+    expect(() =>
+      validateChanges([
+        { releases: { count: 2 } },
+        { timeRange: { start: '2025-01-01T00:00:00Z', end: '2025-01-31T23:59:59Z' } },
+        { commits: { count: 5 } },
+        { commits: { startSha: 'abc123' } },
+        { commits: { shas: ['abc123', 'def456'] } },
+        { commits: { startSha: 'abc123', endSha: 'def456', includeStartCommit: false } },
+        { commits: { startSha: 'abc123', endSha: 'def456' } },
+        { tags: { start: 'v1.0.0', end: 'v1.1.0' } },
+        { tags: { start: 'v1.0.0' } },
+      ])
+    ).not.toThrow();
+  });
+
+  it('should reject values that are not objects', () => {
+    expect(() => validateChanges(['releases'])).toThrow('Invalid change at index 0: must be an object');
+    expect(() => validateChanges([{ releases: 2 }])).toThrow(
+      'Invalid change at index 0: releases must be an object'
+    );
+  });
+
+  it('should require exactly one change kind', () => {
+    expect(() => validateChanges([{ releases: { count: 1 }, tags: { start: 'v1.0.0' } }])).toThrow(
+      'Invalid change at index 0: must have exactly one of releases, timeRange, commits, tags, got releases, tags'
+    );
+    expect(() => validateChanges([{}])).toThrow(
+      'Invalid change at index 0: must have exactly one of releases, timeRange, commits, tags, got no fields'
+    );
+    expect(() => validateChanges([{ release: { count: 1 } }])).toThrow('got release');
+  });
+
+  it('should report the index of the invalid change', () => {
+    expect(() => validateChanges([{ releases: { count: 1 } }, { releases: { count: 0 } }])).toThrow(
+      'Invalid change at index 1: releases.count must be a positive integer, got 0'
+    );
+  });
+
+  it('should reject unknown and missing fields', () => {
+    expect(() => validateChanges([{ releases: { count: 1, limit: 2 } }])).toThrow(
+      'releases has unknown fields: limit'
+    );
+    expect(() => validateChanges([{ timeRange: { start: '2025-01-01T00:00:00Z' } }])).toThrow(
+      'timeRange is missing end'
+    );
+  });
+
+  it('should reject invalid time range timestamps', () => {
+    expect(() => validateChanges([{ timeRange: { start: 'last week', end: '2025-01-31T23:59:59Z' } }])).toThrow(
+      'timeRange.start must be an ISO 8601 timestamp, got "last week"'
+    );
+  });
+
+  it('should reject time range values that are not ISO 8601', () => {
+    expect(() => validateChanges([{ timeRange: { start: '7', end: '2025-01-31T23:59:59Z' } }])).toThrow(
+      'timeRange.start must be an ISO 8601 timestamp, got "7"'
+    );
+    expect(() => validateChanges([{ timeRange: { start: '2025-01-01T00:00:00Z', end: 'foo 1' } }])).toThrow(
+      'timeRange.end must be an ISO 8601 timestamp, got "foo 1"'
+    );
+  });
+
+  it('should reject commits that match no form', () => {
+    expect(() => validateChanges([{ commits: { count: 1, shas: ['abc123'] } }])).toThrow(
+      'commits must have count, shas, startSha, or startSha and endSha (with optional includeStartCommit), got count, shas'
+    );
+    expect(() => validateChanges([{ commits: { startSha: 'abc123', includeStartCommit: true } }])).toThrow(
+      'got startSha, includeStartCommit'
+    );
+  });
+
+  it('should reject invalid commit fields', () => {
+    expect(() => validateChanges([{ commits: { count: 1.5 } }])).toThrow(
+      'commits.count must be a positive integer, got 1.5'
+    );
+    expect(() => validateChanges([{ commits: { shas: [] } }])).toThrow(
+      'commits.shas must be a non-empty list of SHAs'
+    );
+    expect(() => validateChanges([{ commits: { startSha: 'abc123', endSha: 'def456', includeStartCommit: 'yes' } }])).toThrow(
+      'commits.includeStartCommit must be a boolean'
+    );
+    expect(() => validateChanges([{ commits: { startSha: '' } }])).toThrow(
+      'commits.startSha must be a non-empty string'
+    );
+  });
+
+  it('should reject invalid tags', () => {
+    expect(() => validateChanges([{ tags: { start: 'v1.0.0', end: 3 } }])).toThrow(
+      'tags.end must be a non-empty string'
+    );
+  });
+});
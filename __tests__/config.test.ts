@@ -0,0 +1,190 @@
+// __tests__/config.test.ts
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadJobsConfig } from '../src/config';
+
+jest.mock('@actions/core');
+
+describe('loadJobsConfig', () => {
+  let workspace: string;
+
+  const writeConfig = (name: string, content: string) => {
+    fs.writeFileSync(path.join(workspace, name), content);
+  };
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'doc-holiday-config-'));
+    process.env.GITHUB_WORKSPACE = workspace;
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+    delete process.env.GITHUB_WORKSPACE;
+  });
+
+  describe('YAML configs', () => {
+    it('should load multiple named jobs', () => {
+      writeConfig('doc-holiday.yml', `
+jobs:
+  api-reference:
+    title: API reference update
+    body: Document API changes
+    publications: [api-docs]
+    labels: api,automated
+    commits-count: 20
+  user-guide:
+    title: User guide update
+    body: Update the guides
+    source-connection: my-org/docs
+    comments:
+      - Focus on breaking changes
+      - Include examples
+    relevant-links:
+      - https://example.com
+    tags-start: v1.0.0
+    tags-end: v1.1.0
+`);
+
+      const jobs = loadJobsConfig('doc-holiday.yml');
+
+      expect(jobs).toHaveLength(2);
+      expect(jobs[0]).toEqual({
+        name: 'api-reference',
+        title: 'API reference update',
+        body: 'Document API changes',
+        publications: ['api-docs'],
+        labels: ['api', 'automated'],
+        changeset: expect.objectContaining({ commitsCount: 20 }),
+      });
+      expect(jobs[1]).toEqual({
+        name: 'user-guide',
+        title: 'User guide update',
+        body: 'Update the guides',
+        sourceConnection: 'my-org/docs',
+        comments: ['Focus on breaking changes', 'Include examples'],
+        relevantLinks: ['https://example.com'],
+        changeset: expect.objectContaining({ tagsStart: 'v1.0.0', tagsEnd: 'v1.1.0' }),
+      });
+    });
+
+    it('should parse list-valued commit SHAs', () => {
+      writeConfig('doc-holiday.yml', `
+jobs:
+  hotfixes:
+    title: Hotfixes
+    body: Document hotfixes
+    commits-shas: [abc123, def456]
+`);
+
+      const [job] = loadJobsConfig('doc-holiday.yml');
+      expect(job.changeset?.commitsShas).toEqual(['abc123', 'def456']);
+    });
+
+    it('should parse a structured changes list', () => {
+      writeConfig('doc-holiday.yml', `
+jobs:
+  release:
+    title: Release
+    body: Document the release and hotfixes
+    tags-start: v1.0.0
+    changes:
+      - commits:
+          shas: [abc123, def456]
+`);
+
+      const [job] = loadJobsConfig('doc-holiday.yml');
+      expect(job.changeset).toMatchObject({
+        tagsStart: 'v1.0.0',
+        changes: [{ commits: { shas: ['abc123', 'def456'] } }],
+      });
+    });
+
+    it('should leave changeset undefined when none is declared', () => {
+      writeConfig('doc-holiday.yml', `
+jobs:
+  simple:
+    title: Simple
+    body: Body
+`);
+
+      const [job] = loadJobsConfig('doc-holiday.yml');
+      expect(job.changeset).toBeUndefined();
+    });
+  });
+
+  describe('JSON configs', () => {
+    it('should load jobs from a JSON file', () => {
+      writeConfig('doc-holiday.json', JSON.stringify({
+        jobs: {
+          changelog: {
+            title: 'Changelog',
+            body: 'Update the changelog',
+            'releases-count': 1,
+          },
+        },
+      }));
+
+      const jobs = loadJobsConfig('doc-holiday.json');
+
+      expect(jobs).toHaveLength(1);
+      expect(jobs[0].name).toBe('changelog');
+      expect(jobs[0].changeset?.releasesCount).toBe(1);
+    });
+  });
+
+  describe('validation', () => {
+    it('should throw when the file does not exist', () => {
+      expect(() => loadJobsConfig('missing.yml')).toThrow('Config file not found: missing.yml');
+    });
+
+    it('should throw when the file cannot be parsed', () => {
+      writeConfig('bad.yml', 'jobs: [unclosed');
+      expect(() => loadJobsConfig('bad.yml')).toThrow('Failed to parse config file bad.yml');
+    });
+
+    it('should throw when jobs mapping is missing', () => {
+      writeConfig('doc-holiday.yml', 'title: not a batch config\n');
+      expect(() => loadJobsConfig('doc-holiday.yml')).toThrow(
+        'Config file doc-holiday.yml must define a "jobs" mapping of named jobs'
+      );
+    });
+
+    it('should throw when no jobs are defined', () => {
+      writeConfig('doc-holiday.yml', 'jobs: {}\n');
+      expect(() => loadJobsConfig('doc-holiday.yml')).toThrow(
+        'Config file doc-holiday.yml does not define any jobs'
+      );
+    });
+
+    it('should throw when a job is missing a title', () => {
+      writeConfig('doc-holiday.yml', 'jobs:\n  broken:\n    body: Body\n');
+      expect(() => loadJobsConfig('doc-holiday.yml')).toThrow('Job "broken" is missing a title');
+    });
+
+    it('should throw when a job is missing a body', () => {
+      writeConfig('doc-holiday.yml', 'jobs:\n  broken:\n    title: Title\n');
+      expect(() => loadJobsConfig('doc-holiday.yml')).toThrow('Job "broken" is missing a body');
+    });
+
+    it('should throw on unknown job fields', () => {
+      writeConfig('doc-holiday.yml', 'jobs:\n  typo:\n    title: T\n    body: B\n    commit-count: 5\n');
+      expect(() => loadJobsConfig('doc-holiday.yml')).toThrow('Job "typo" has unknown fields: commit-count');
+    });
+
+    it('should reuse changeset mutual exclusivity rules', () => {
+      writeConfig('doc-holiday.yml', `
+jobs:
+  conflicting:
+    title: Title
+    body: Body
+    releases-count: 1
+    commits-count: 5
+`);
+
+      expect(() => loadJobsConfig('doc-holiday.yml')).toThrow(
+        'Job "conflicting": Multiple changeset types specified: releases-count, commits-count. Only one type is allowed.'
+      );
+    });
+  });
+});
@@ -0,0 +1,155 @@
+// __tests__/directives.test.ts
+import * as core from '@actions/core';
+import { parseBodyDirectives, stripTemplateNoise } from '../src/directives';
+
+jest.mock('@actions/core');
+
+describe('directives', () => {
+  describe('parseBodyDirectives', () => {
+    it('should return the body unchanged without directives', () => {
+      expect(parseBodyDirectives('Adds a feature.\n\n## Changes\n- Feature A')).toEqual({
+        body: 'Adds a feature.\n\n## Changes\n- Feature A',
+      });
+    });
+
+    it('should parse an HTML comment directive and strip it', () => {
+      const result = parseBodyDirectives(
+        'Adds search.\n\n<!-- doc-holiday: publications=api-docs,user-guide; labels=search; skip=false -->'
+      );
+
+      expect(result.body).toBe('Adds search.');
+      expect(result.directives).toEqual({
+        publications: ['api-docs', 'user-guide'],
+        labels: ['search'],
+        comments: undefined,
+        changeset: undefined,
+        skip: false,
+      });
+    });
+
+    it('should parse a multi-line comment directive with a changeset', () => {
+      const result = parseBodyDirectives(
+        '<!-- doc-holiday:\n  commits-since-sha=abc123\n  comments=Focus on the new endpoint\n-->\nBody'
+      );
+
+      expect(result.body).toBe('Body');
+      expect(result.directives?.changeset).toEqual(expect.objectContaining({ commitsSinceSha: 'abc123' }));
+      expect(result.directives?.comments).toEqual(['Focus on the new endpoint']);
+    });
+
+    it('should parse a doc-holiday YAML fence and strip it', () => {
+      const body = [
+        'Adds search.',
+        '',
+        '```doc-holiday',
+        'publications: [api-docs]',
+        'comments:',
+        '  - Focus on breaking changes',
+        '  - Include examples',
+        'tags-start: v1.0.0',
+        'tags-end: v1.1.0',
+        'skip: true',
+        '```',
+        '',
+        'Thanks!',
+      ].join('\n');
+
+      const result = parseBodyDirectives(body);
+
+      expect(result.body).toBe('Adds search.\n\nThanks!');
+      expect(result.directives).toEqual({
+        publications: ['api-docs'],
+        labels: undefined,
+        comments: ['Focus on breaking changes', 'Include examples'],
+        changeset: expect.objectContaining({ tagsStart: 'v1.0.0', tagsEnd: 'v1.1.0' }),
+        skip: true,
+      });
+    });
+
+    it('should not treat release section markers as directives', () => {
+      const result = parseBodyDirectives('Notes\n<!-- doc-holiday:start -->\nold\n<!-- doc-holiday:end -->');
+
+      expect(result.directives).toBeUndefined();
+      expect(result.body).toBe('Notes\n\nold');
+    });
+
+    it('should reject unknown fields', () => {
+      expect(() => parseBodyDirectives('<!-- doc-holiday: publication=api-docs -->')).toThrow(
+        'doc-holiday directive has unknown fields: publication'
+      );
+    });
+
+    it('should warn about and ignore free-text comments', () => {
+      const result = parseBodyDirectives('Adds search.\n<!-- doc-holiday: see docs team -->');
+
+      expect(result).toEqual({ body: 'Adds search.' });
+      expect(core.warning).toHaveBeenCalledWith(
+        'Ignoring doc-holiday comment that is not "key=value" pairs: <!-- doc-holiday: see docs team -->'
+      );
+    });
+
+    it('should fall back to the original body when only template noise remains', () => {
+      const body = '## Description\n<!-- Describe your change -->\n\n## Checklist\n- [ ] Tests added';
+
+      expect(parseBodyDirectives(body)).toEqual({ body });
+    });
+
+    it('should reject invalid skip values', () => {
+      expect(() => parseBodyDirectives('<!-- doc-holiday: skip=maybe -->')).toThrow(
+        'doc-holiday directive skip must be true or false, got "maybe"'
+      );
+    });
+
+    it('should reject conflicting changesets', () => {
+      expect(() => parseBodyDirectives('<!-- doc-holiday: commits-count=5; tags-start=v1.0.0 -->')).toThrow(
+        'doc-holiday directive: Multiple changeset types specified: commits-count, tags. Only one type is allowed.'
+      );
+    });
+
+    it('should reject fences that are not a mapping', () => {
+      expect(() => parseBodyDirectives('```doc-holiday\n- api-docs\n```')).toThrow(
+        'doc-holiday block must be a YAML mapping'
+      );
+    });
+  });
+
+  describe('stripTemplateNoise', () => {
+    it('should remove template comments, checklists and empty sections', () => {
+      const body = [
+        '## Summary',
+        '<!-- Describe your change -->',
+        'Adds search.',
+        '',
+        '## Checklist',
+        '- [x] Tests added',
+        '- [ ] Docs updated',
+        '',
+        '## Notes',
+        'Ships behind a flag.',
+        '',
+        '## Screenshots',
+        '<!-- Optional -->',
+      ].join('\n');
+
+      expect(stripTemplateNoise(body)).toBe('## Summary\n\nAdds search.\n\n## Notes\nShips behind a flag.');
+    });
+
+    it('should keep headings followed by subsections with content', () => {
+      expect(stripTemplateNoise('## v1.2.0\n### Features\n- Add X')).toBe('## v1.2.0\n### Features\n- Add X');
+    });
+
+    it('should remove headings whose subsections are all empty', () => {
+      expect(stripTemplateNoise('Intro\n\n## Testing\n### Unit\n<!-- list tests -->\n## Notes\nDone.')).toBe(
+        'Intro\n\n## Notes\nDone.'
+      );
+    });
+
+    it('should return an empty string for a template without content', () => {
+      expect(stripTemplateNoise('## Description\n<!-- describe -->\n## Checklist\n- [ ] Tests')).toBe('');
+    });
+
+    it('should keep regular list items', () => {
+      expect(stripTemplateNoise('- Added feature A\n- Fixed bug B')).toBe('- Added feature A\n- Fixed bug B');
+    });
+  });
+});
@@ -0,0 +1,163 @@
+// __tests__/enrichment.test.ts
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import { collectPullRequestContext, findLinkedIssues } from '../src/enrichment';
+
+const mockGetPull = jest.fn();
+const mockListReviews = jest.fn();
+const mockListReviewComments = jest.fn();
+const mockGetIssue = jest.fn();
+
+jest.mock('@actions/core');
+
+// Mock @actions/github
+jest.mock('@actions/github', () => ({
+  context: {
+    payload: {},
+    repo: {
+      owner: 'test-owner',
+      repo: 'test-repo',
+    },
+  },
+  getOctokit: jest.fn(),
+}));
+
+const mockGetOctokit = github.getOctokit as jest.MockedFunction<typeof github.getOctokit>;
+
+describe('enrichment', () => {
+  describe('findLinkedIssues', () => {
+    it('should find issues referenced with closing keywords', () => {
+      expect(findLinkedIssues('Fixes #12, closes other/repo#34 and Resolved: #5. See #99.', 'o', 'r')).toEqual([
+        { owner: 'o', repo: 'r', number: 12 },
+        { owner: 'other', repo: 'repo', number: 34 },
+        { owner: 'o', repo: 'r', number: 5 },
+      ]);
+    });
+
+    it('should deduplicate and cap linked issues', () => {
+      const body = 'fix #1 fix #1 fix #2 fix #3 fix #4 fix #5 fix #6';
+      expect(findLinkedIssues(body, 'o', 'r').map(issue => issue.number)).toEqual([1, 2, 3, 4, 5]);
+    });
+  });
+
+  describe('collectPullRequestContext', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockGetOctokit.mockReturnValue({
+        rest: {
+          pulls: {
+            get: mockGetPull,
+            listReviews: mockListReviews,
+            listReviewComments: mockListReviewComments,
+          },
+          issues: { get: mockGetIssue },
+        },
+      } as any);
+      mockGetPull.mockResolvedValue({
+        data: {
+          html_url: 'https://github.com/test-owner/test-repo/pull/42',
+          user: { login: 'alice' },
+          labels: [{ name: 'api' }, { name: 'enhancement' }],
+          milestone: { title: 'v2.0' },
+          body: 'Adds search. Fixes #12',
+        },
+      });
+      mockListReviews.mockResolvedValue({
+        data: [
+          { user: { login: 'bob' }, state: 'CHANGES_REQUESTED' },
+          { user: { login: 'bob' }, state: 'APPROVED' },
+          { user: { login: 'bob' }, state: 'COMMENTED' },
+          { user: { login: 'carol' }, state: 'COMMENTED' },
+        ],
+      });
+      mockListReviewComments.mockResolvedValue({
+        data: [{ user: { login: 'bob' }, path: 'src/search.ts', body: 'Document the\n\nquery syntax' }],
+      });
+      mockGetIssue.mockResolvedValue({
+        data: { html_url: 'https://github.com/test-owner/test-repo/issues/12', title: 'Support search' },
+      });
+    });
+
+    it('should turn PR metadata into links and comments', async () => {
+      const result = await collectPullRequestContext('gh-token', 42);
+
+      expect(mockGetOctokit).toHaveBeenCalledWith('gh-token');
+      expect(mockGetPull).toHaveBeenCalledWith({ owner: 'test-owner', repo: 'test-repo', pull_number: 42 });
+      expect(mockListReviewComments).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        pull_number: 42,
+        per_page: 10,
+      });
+      expect(mockGetIssue).toHaveBeenCalledWith({ owner: 'test-owner', repo: 'test-repo', issue_number: 12 });
+      expect(result).toEqual({
+        relevantLinks: [
+          'https://github.com/test-owner/test-repo/pull/42',
+          'https://github.com/test-owner/test-repo/issues/12',
+        ],
+        comments: [
+          'PR author: @alice',
+          'Reviewers: @bob (approved), @carol (commented)',
+          'Labels: api, enhancement',
+          'Milestone: v2.0',
+          'Linked issue #12: Support search',
+          'Review comment by @bob on src/search.ts: Document the query syntax',
+        ],
+      });
+    });
+
+    it('should skip linked issues that cannot be read', async () => {
+      mockGetPull.mockResolvedValue({
+        data: {
+          html_url: 'https://github.com/test-owner/test-repo/pull/42',
+          user: { login: 'alice' },
+          labels: [],
+          milestone: null,
+          body: 'Fixes #404 and closes #12',
+        },
+      });
+      mockGetIssue.mockImplementation(({ issue_number }) =>
+        issue_number === 404
+          ? Promise.reject(Object.assign(new Error('Not Found'), { status: 404 }))
+          : Promise.resolve({
+              data: { html_url: 'https://github.com/test-owner/test-repo/issues/12', title: 'Support search' },
+            })
+      );
+
+      const result = await collectPullRequestContext('gh-token', 42);
+
+      expect(core.warning).toHaveBeenCalledWith('Skipping linked issue test-owner/test-repo#404: Not Found');
+      expect(result.relevantLinks).toEqual([
+        'https://github.com/test-owner/test-repo/pull/42',
+        'https://github.com/test-owner/test-repo/issues/12',
+      ]);
+      expect(result.comments).toContain('Linked issue #12: Support search');
+      expect(result.comments).toContain('Reviewers: @bob (approved), @carol (commented)');
+    });
+
+    it('should omit empty metadata and truncate long comments', async () => {
+      mockGetPull.mockResolvedValue({
+        data: {
+          html_url: 'https://github.com/test-owner/test-repo/pull/42',
+          user: { login: 'alice' },
+          labels: [],
+          milestone: null,
+          body: null,
+        },
+      });
+      mockListReviews.mockResolvedValue({ data: [] });
+      mockListReviewComments.mockResolvedValue({
+        data: [{ user: null, path: 'README.md', body: 'x'.repeat(500) }],
+      });
+
+      const result = await collectPullRequestContext('gh-token', 42);
+
+      expect(mockGetIssue).not.toHaveBeenCalled();
+      expect(result.relevantLinks).toEqual(['https://github.com/test-owner/test-repo/pull/42']);
+      expect(result.comments).toHaveLength(2);
+      expect(result.comments[1]).toHaveLength(300);
+      expect(result.comments[1].startsWith('Review comment by a reviewer on README.md: xxx')).toBe(true);
+      expect(result.comments[1].endsWith('…')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+// __tests__/errors.test.ts
+import {
+  AuthError,
+  NetworkError,
+  RateLimitError,
+  ServerError,
+  ValidationError,
+  createApiError,
+  errorFromResponse,
+} from '../src/errors';
+
+describe('errors', () => {
+  describe('createApiError', () => {
+    it('should classify errors by status', () => {
+      expect(createApiError(401, '')).toBeInstanceOf(AuthError);
+      expect(createApiError(403, 'Forbidden')).toBeInstanceOf(AuthError);
+      expect(createApiError(400, 'Bad Request')).toBeInstanceOf(ValidationError);
+      expect(createApiError(422, 'Unprocessable')).toBeInstanceOf(ValidationError);
+      expect(createApiError(429, '')).toBeInstanceOf(RateLimitError);
+      expect(createApiError(408, 'Request Timeout')).toBeInstanceOf(ServerError);
+      expect(createApiError(502, 'Bad Gateway')).toBeInstanceOf(ServerError);
+    });
+
+    it('should set the error code and name', () => {
+      const error = createApiError(429, '');
+
+      expect(error.code).toBe('rate-limit');
+      expect(error.name).toBe('RateLimitError');
+      expect(error.status).toBe(429);
+      expect(new NetworkError('fetch failed').code).toBe('network');
+    });
+
+    it('should parse JSON bodies and keep other bodies as text', () => {
+      const json = createApiError(422, '{"error":"invalid changes","field":"changes"}');
+      expect(json.body).toEqual({ error: 'invalid changes', field: 'changes' });
+      expect(json.message).toBe('Doc.holiday API error (422): {"error":"invalid changes","field":"changes"}');
+
+      expect(createApiError(500, 'Internal server error').body).toBe('Internal server error');
+      expect(createApiError(401, '').body).toBeUndefined();
+    });
+
+    it('should include the request id in the message', () => {
+      const error = createApiError(500, 'Internal server error', 'req-123');
+
+      expect(error.requestId).toBe('req-123');
+      expect(error.message).toBe('Doc.holiday API error (500): Internal server error (request id: req-123)');
+    });
+
+    it('should read the request id from the body when there is no header', () => {
+      expect(createApiError(400, '{"error":"bad","requestId":"req-456"}').requestId).toBe('req-456');
+    });
+  });
+
+  describe('errorFromResponse', () => {
+    it('should read the body and X-Request-Id header', async () => {
+      const error = await errorFromResponse({
+        status: 400,
+        headers: new Headers({ 'X-Request-Id': 'req-789' }),
+        text: async () => '{"error":"title is required"}',
+      } as Response);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.status).toBe(400);
+      expect(error.body).toEqual({ error: 'title is required' });
+      expect(error.requestId).toBe('req-789');
+    });
+  });
+});
@@ -1,6 +1,8 @@
 // __tests__/github-context.test.ts
 import * as github from '@actions/github';
 import { getSmartDefaults, inferSourceConnection } from '../src/github-context';
+import { findPreviousTag } from '../src/tags';
+import { findLastSuccessfulRun } from '../src/workflow-runs';
 
 // Mock @actions/github
 jest.mock('@actions/github', () => ({
@@ -13,6 +15,12 @@ jest.mock('@actions/github', () => ({
   },
 }));
 
+jest.mock('../src/tags');
+jest.mock('../src/workflow-runs');
+
+const mockFindPreviousTag = findPreviousTag as jest.MockedFunction<typeof findPreviousTag>;
+const mockFindLastSuccessfulRun = findLastSuccessfulRun as jest.MockedFunction<typeof findLastSuccessfulRun>;
+
 describe('github-context', () => {
   describe('getSmartDefaults', () => {
     describe('release events', () => {
@@ -31,41 +39,67 @@ describe('github-context', () => {
         (github.context as any).payload = {};
       });
 
-      test('extracts title from release tag', () => {
-        const result = getSmartDefaults('release');
+      test('extracts title from release tag', async () => {
+        const result = await getSmartDefaults('release');
         expect(result.title).toBe('Release notes for v1.2.3');
       });
 
-      test('extracts body from release description', () => {
-        const result = getSmartDefaults('release');
+      test('extracts body from release description', async () => {
+        const result = await getSmartDefaults('release');
         expect(result.body).toBe('Release body with **markdown**\n\nAnd multiple lines.');
       });
 
-      test('sets eventType to release', () => {
-        const result = getSmartDefaults('release');
+      test('exposes the release id', async () => {
+        (github.context as any).payload.release.id = 99;
+        const result = await getSmartDefaults('release');
+        expect(result.releaseId).toBe(99);
+      });
+
+      test('sets eventType to release', async () => {
+        const result = await getSmartDefaults('release');
         expect(result.eventType).toBe('release');
       });
 
-      test('handles release with empty body', () => {
+      test('handles release with empty body', async () => {
         (github.context as any).payload.release.body = '';
-        const result = getSmartDefaults('release');
+        const result = await getSmartDefaults('release');
         expect(result.body).toBe('');
       });
 
-      test('handles release with null body', () => {
+      test('handles release with null body', async () => {
         (github.context as any).payload.release.body = null;
-        const result = getSmartDefaults('release');
+        const result = await getSmartDefaults('release');
         expect(result.body).toBe('');
       });
 
-      test('throws error when no release data found', () => {
+      test('throws error when no release data found', async () => {
         (github.context as any).payload = {};
-        expect(() => getSmartDefaults('release')).toThrow(
+        await expect(getSmartDefaults('release')).rejects.toThrow(
           'No release data found in event payload. Is this a release event?'
         );
       });
     });
 
+    describe('release body directives', () => {
+      afterEach(() => {
+        (github.context as any).payload = {};
+      });
+
+      test('applies a doc-holiday fence in the release body', async () => {
+        (github.context as any).payload = {
+          release: {
+            id: 5,
+            tag_name: 'v2.0.0',
+            body: 'Big release\n\n```doc-holiday\nreleases-count: 2\nskip: true\n```',
+          },
+        };
+        const result = await getSmartDefaults('release');
+        expect(result.body).toBe('Big release');
+        expect(result.directives?.changeset).toEqual(expect.objectContaining({ releasesCount: 2 }));
+        expect(result.skipReason).toBe('skipped by a doc-holiday directive in the release body');
+      });
+    });
+
     describe('merge events', () => {
       beforeEach(() => {
         // Set up a PR merge event context
@@ -84,74 +118,478 @@ describe('github-context', () => {
         (github.context as any).payload = {};
       });
 
-      test('extracts title from PR number and title', () => {
-        const result = getSmartDefaults('merge');
+      test('extracts title from PR number and title', async () => {
+        const result = await getSmartDefaults('merge');
         expect(result.title).toBe('Documentation for PR #42: Add amazing feature');
       });
 
-      test('extracts body from PR description', () => {
-        const result = getSmartDefaults('merge');
+      test('extracts body from PR description', async () => {
+        const result = await getSmartDefaults('merge');
         expect(result.body).toBe('This PR adds an amazing feature.\n\n## Changes\n- Added feature A\n- Fixed bug B');
       });
 
-      test('sets eventType to merge', () => {
-        const result = getSmartDefaults('merge');
+      test('sets eventType to merge', async () => {
+        const result = await getSmartDefaults('merge');
         expect(result.eventType).toBe('merge');
       });
 
-      test('handles PR with empty body', () => {
+      test('exposes the PR number', async () => {
+        const result = await getSmartDefaults('merge');
+        expect(result.pullRequestNumber).toBe(42);
+      });
+
+      test('applies body directives and strips them from the body', async () => {
+        (github.context as any).payload.pull_request.body =
+          'Adds search.\n\n<!-- doc-holiday: publications=api-docs -->\n\n- [ ] Docs updated';
+        const result = await getSmartDefaults('merge');
+        expect(result.body).toBe('Adds search.');
+        expect(result.directives?.publications).toEqual(['api-docs']);
+        expect(result.skipReason).toBeUndefined();
+      });
+
+      test('skips when a body directive sets skip=true', async () => {
+        (github.context as any).payload.pull_request.body = '<!-- doc-holiday: skip=true -->\nCI only';
+        const result = await getSmartDefaults('merge');
+        expect(result.skipReason).toBe('skipped by a doc-holiday directive in the pull request body');
+      });
+
+      test('exposes the PR label names', async () => {
+        (github.context as any).payload.pull_request.labels = [
+          { id: 1, name: 'docs:api' },
+          { id: 2, name: 'enhancement' },
+        ];
+        const result = await getSmartDefaults('merge');
+        expect(result.pullRequestLabels).toEqual(['docs:api', 'enhancement']);
+      });
+
+      test('leaves PR labels unset when the PR has none', async () => {
+        (github.context as any).payload.pull_request.labels = [];
+        const result = await getSmartDefaults('merge');
+        expect(result.pullRequestLabels).toBeUndefined();
+      });
+
+      test('handles PR with empty body', async () => {
         (github.context as any).payload.pull_request.body = '';
-        const result = getSmartDefaults('merge');
+        const result = await getSmartDefaults('merge');
         expect(result.body).toBe('');
       });
 
-      test('handles PR with null body', () => {
+      test('handles PR with null body', async () => {
         (github.context as any).payload.pull_request.body = null;
-        const result = getSmartDefaults('merge');
+        const result = await getSmartDefaults('merge');
         expect(result.body).toBe('');
       });
 
-      test('throws error when no PR data found', () => {
+      test('throws error when no PR data found', async () => {
         (github.context as any).payload = {};
-        expect(() => getSmartDefaults('merge')).toThrow(
+        await expect(getSmartDefaults('merge')).rejects.toThrow(
           'No pull request data found in event payload. Is this a PR event?'
         );
       });
 
-      test('throws error when PR is not merged', () => {
+      test('throws error when PR is not merged', async () => {
         (github.context as any).payload.pull_request.merged = false;
-        expect(() => getSmartDefaults('merge')).toThrow(
+        await expect(getSmartDefaults('merge')).rejects.toThrow(
           'Pull request is not merged. Use event-type: merge only for merged PRs.'
         );
       });
 
-      test('handles PR number 0', () => {
+      test('handles PR number 0', async () => {
         (github.context as any).payload.pull_request.number = 0;
-        const result = getSmartDefaults('merge');
+        const result = await getSmartDefaults('merge');
         expect(result.title).toBe('Documentation for PR #0: Add amazing feature');
       });
 
-      test('handles PR with very long title', () => {
+      test('handles PR with very long title', async () => {
         const longTitle = 'A'.repeat(500);
         (github.context as any).payload.pull_request.title = longTitle;
-        const result = getSmartDefaults('merge');
+        const result = await getSmartDefaults('merge');
         expect(result.title).toBe(`Documentation for PR #42: ${longTitle}`);
       });
     });
 
+    describe('pull-request preview events', () => {
+      beforeEach(() => {
+        (github.context as any).payload = {
+          action: 'synchronize',
+          pull_request: {
+            number: 7,
+            title: 'Add search endpoint',
+            body: 'Adds /search',
+            merged: false,
+            base: { sha: 'base123' },
+            head: { sha: 'head456' },
+          },
+        };
+      });
+
+      test('sends the base..head range with a preview label', async () => {
+        const result = await getSmartDefaults('pull-request');
+        expect(result).toEqual({
+          title: 'Documentation preview for PR #7: Add search endpoint',
+          body: 'Adds /search',
+          changes: [{ commits: { startSha: 'base123', endSha: 'head456', includeStartCommit: false } }],
+          labels: ['preview'],
+          pullRequestNumber: 7,
+          headSha: 'head456',
+        });
+        expect(result.eventType).toBeUndefined();
+      });
+
+      test.each(['opened', 'reopened'])('handles %s pull requests', async action => {
+        (github.context as any).payload.action = action;
+        const result = await getSmartDefaults('pull-request');
+        expect(result.skipReason).toBeUndefined();
+        expect(result.headSha).toBe('head456');
+      });
+
+      test('skips other pull request actions', async () => {
+        (github.context as any).payload.action = 'closed';
+        const result = await getSmartDefaults('pull-request');
+        expect(result.skipReason).toBe(
+          'pull request action "closed" does not trigger a preview (expected opened, synchronize, reopened)'
+        );
+      });
+
+      test('throws error when commit SHAs are missing', async () => {
+        delete (github.context as any).payload.pull_request.head;
+        await expect(getSmartDefaults('pull-request')).rejects.toThrow(
+          'Pull request payload is missing base or head commit SHAs'
+        );
+      });
+
+      test('throws error without pull request data', async () => {
+        (github.context as any).payload = { action: 'opened' };
+        await expect(getSmartDefaults('pull-request')).rejects.toThrow(
+          'No pull request data found in event payload. Is this a PR event?'
+        );
+      });
+    });
+
+    describe('push events', () => {
+      const before = 'a'.repeat(40);
+      const after = 'b'.repeat(40);
+      const zeroSha = '0'.repeat(40);
+
+      beforeEach(() => {
+        (github.context as any).payload = {
+          ref: 'refs/heads/main',
+          before,
+          after,
+          deleted: false,
+          commits: [
+            { id: 'c1'.repeat(20), message: 'Add search endpoint\n\nLonger description' },
+            { id: 'c2'.repeat(20), message: 'Fix pagination bug' },
+          ],
+        };
+      });
+
+      afterEach(() => {
+        (github.context as any).payload = {};
+      });
+
+      test('generates title from branch name', async () => {
+        const result = await getSmartDefaults('push');
+        expect(result.title).toBe('Documentation for push to main');
+      });
+
+      test('generates body from commit message subjects', async () => {
+        const result = await getSmartDefaults('push');
+        expect(result.body).toBe(
+          'Document changes pushed to main:\n\n- Add search endpoint (c1c1c1c)\n- Fix pagination bug (c2c2c2c)'
+        );
+      });
+
+      test('builds a commit range from before/after SHAs', async () => {
+        const result = await getSmartDefaults('push');
+        expect(result.changes).toEqual([
+          { commits: { startSha: before, endSha: after, includeStartCommit: false } },
+        ]);
+      });
+
+      test('does not set an API eventType', async () => {
+        const result = await getSmartDefaults('push');
+        expect(result.eventType).toBeUndefined();
+      });
+
+      test('handles nested branch names', async () => {
+        (github.context as any).payload.ref = 'refs/heads/release/1.x';
+        const result = await getSmartDefaults('push');
+        expect(result.title).toBe('Documentation for push to release/1.x');
+      });
+
+      test('caps the number of commits listed in the body', async () => {
+        (github.context as any).payload.commits = Array.from({ length: 25 }, (_, i) => ({
+          id: `${i}`.padStart(40, '0'),
+          message: `Commit ${i}`,
+        }));
+        const result = await getSmartDefaults('push');
+        expect(result.body.split('\n').filter(line => line.startsWith('- Commit'))).toHaveLength(20);
+        expect(result.body).toContain('- ...and 5 more commits');
+      });
+
+      test('uses payload commit SHAs when before is the zero SHA', async () => {
+        (github.context as any).payload.before = zeroSha;
+        const result = await getSmartDefaults('push');
+        expect(result.changes).toEqual([
+          { commits: { shas: ['c1'.repeat(20), 'c2'.repeat(20)] } },
+        ]);
+        expect(result.skipReason).toBeUndefined();
+      });
+
+      test('skips new branches without commits', async () => {
+        (github.context as any).payload.before = zeroSha;
+        (github.context as any).payload.commits = [];
+        const result = await getSmartDefaults('push');
+        expect(result.skipReason).toBe('push to new branch main has no commits');
+      });
+
+      test('skips branch deletions', async () => {
+        (github.context as any).payload.deleted = true;
+        (github.context as any).payload.after = zeroSha;
+        const result = await getSmartDefaults('push');
+        expect(result.skipReason).toBe('branch main was deleted');
+        expect(result.changes).toBeUndefined();
+      });
+
+      test('throws error for tag pushes', async () => {
+        (github.context as any).payload.ref = 'refs/tags/v1.0.0';
+        await expect(getSmartDefaults('push')).rejects.toThrow(
+          'Push to refs/tags/v1.0.0 is not a branch push. Use event-type: tag for tag pushes.'
+        );
+      });
+
+      test('throws error when no push data found', async () => {
+        (github.context as any).payload = {};
+        await expect(getSmartDefaults('push')).rejects.toThrow(
+          'No push data found in event payload. Is this a push event?'
+        );
+      });
+    });
+
+    describe('tag events', () => {
+      beforeEach(() => {
+        jest.clearAllMocks();
+        (github.context as any).payload = {
+          ref: 'refs/tags/v1.4.0',
+          deleted: false,
+        };
+        mockFindPreviousTag.mockResolvedValue('v1.3.0');
+      });
+
+      afterEach(() => {
+        (github.context as any).payload = {};
+      });
+
+      test('generates release title from tag name', async () => {
+        const result = await getSmartDefaults('tag', 'gh-token');
+        expect(result.title).toBe('Release notes for v1.4.0');
+        expect(result.eventType).toBe('release');
+      });
+
+      test('builds a tag range from the previous semver tag', async () => {
+        const result = await getSmartDefaults('tag', 'gh-token');
+        expect(mockFindPreviousTag).toHaveBeenCalledWith('gh-token', 'v1.4.0');
+        expect(result.body).toBe('Document changes in v1.4.0 since v1.3.0');
+        expect(result.changes).toEqual([{ tags: { start: 'v1.3.0', end: 'v1.4.0' } }]);
+      });
+
+      test('supports tag create events', async () => {
+        (github.context as any).payload = { ref: 'v1.4.0', ref_type: 'tag' };
+        const result = await getSmartDefaults('tag', 'gh-token');
+        expect(result.changes).toEqual([{ tags: { start: 'v1.3.0', end: 'v1.4.0' } }]);
+      });
+
+      test('omits changes for the first tagged release', async () => {
+        mockFindPreviousTag.mockResolvedValue(undefined);
+        const result = await getSmartDefaults('tag', 'gh-token');
+        expect(result.body).toBe('Document changes in v1.4.0, the first tagged release');
+        expect(result.changes).toBeUndefined();
+      });
+
+      test('skips tag deletions', async () => {
+        (github.context as any).payload.deleted = true;
+        const result = await getSmartDefaults('tag', 'gh-token');
+        expect(result.skipReason).toBe('tag v1.4.0 was deleted');
+        expect(mockFindPreviousTag).not.toHaveBeenCalled();
+      });
+
+      test('throws error without a github token', async () => {
+        await expect(getSmartDefaults('tag')).rejects.toThrow(
+          'github-token is required for event-type: tag to find the previous tag'
+        );
+      });
+
+      test('throws error for branch pushes', async () => {
+        (github.context as any).payload.ref = 'refs/heads/main';
+        await expect(getSmartDefaults('tag', 'gh-token')).rejects.toThrow(
+          'No tag found in event payload. Is this a tag push event?'
+        );
+      });
+    });
+
+    describe('dispatch events', () => {
+      beforeEach(() => {
+        (github.context as any).payload = {
+          inputs: {
+            title: 'Document the new API',
+            body: 'Cover the endpoints added this sprint',
+            start_sha: 'abc123',
+            end_sha: 'def456',
+            publications: 'api-docs, user-guide',
+            unrelated: 'ignored',
+          },
+        };
+      });
+
+      test('maps well-known dispatch inputs onto the request', async () => {
+        const result = await getSmartDefaults('dispatch');
+        expect(result).toEqual({
+          title: 'Document the new API',
+          body: 'Cover the endpoints added this sprint',
+          changes: [{ commits: { startSha: 'abc123', endSha: 'def456', includeStartCommit: true } }],
+          publications: ['api-docs', 'user-guide'],
+        });
+        expect(result.eventType).toBeUndefined();
+      });
+
+      test('uses commits since start_sha when end_sha is empty', async () => {
+        (github.context as any).payload.inputs.end_sha = '';
+        const result = await getSmartDefaults('dispatch');
+        expect(result.changes).toEqual([{ commits: { startSha: 'abc123' } }]);
+      });
+
+      test('maps the tag input onto a tags changeset', async () => {
+        (github.context as any).payload.inputs = { tag: 'v1.2.0' };
+        const result = await getSmartDefaults('dispatch');
+        expect(result.changes).toEqual([{ tags: { start: 'v1.2.0' } }]);
+      });
+
+      test('falls back to default title and body without changes', async () => {
+        (github.context as any).payload.inputs = {};
+        const result = await getSmartDefaults('dispatch');
+        expect(result.title).toBe('Manual documentation request');
+        expect(result.body).toBe('Generate documentation for the selected changes');
+        expect(result.changes).toBeUndefined();
+        expect(result.publications).toBeUndefined();
+      });
+
+      test('throws error when end_sha is given without start_sha', async () => {
+        (github.context as any).payload.inputs = { end_sha: 'def456' };
+        await expect(getSmartDefaults('dispatch')).rejects.toThrow(
+          'workflow_dispatch input end_sha requires start_sha'
+        );
+      });
+
+      test('throws error when both commits and a tag are given', async () => {
+        (github.context as any).payload.inputs.tag = 'v1.2.0';
+        await expect(getSmartDefaults('dispatch')).rejects.toThrow('Multiple changeset types specified');
+      });
+
+      test('throws error without dispatch inputs', async () => {
+        (github.context as any).payload = {};
+        await expect(getSmartDefaults('dispatch')).rejects.toThrow(
+          'No workflow_dispatch inputs found in event payload. Is this a workflow_dispatch event?'
+        );
+      });
+    });
+
+    describe('schedule events', () => {
+      const headSha = 'def4567890def4567890def4567890def4567890';
+      const previousSha = 'abc1234567abc1234567abc1234567abc1234567';
+
+      beforeEach(() => {
+        jest.clearAllMocks();
+        (github.context as any).payload = { schedule: '0 9 * * 1' };
+        (github.context as any).sha = headSha;
+      });
+
+      test('documents commits since the last successful run', async () => {
+        mockFindLastSuccessfulRun.mockResolvedValue({
+          id: 41,
+          headSha: previousSha,
+          createdAt: '2025-01-06T09:00:00Z',
+        });
+
+        const result = await getSmartDefaults('schedule', 'gh-token');
+
+        expect(mockFindLastSuccessfulRun).toHaveBeenCalledWith('gh-token');
+        expect(result).toEqual({
+          title: 'Scheduled documentation update',
+          body: 'Document all changes since the last successful run (abc1234)',
+          changes: [{ commits: { startSha: previousSha } }],
+          window: { start: previousSha, end: headSha },
+        });
+      });
+
+      test('skips when nothing was pushed since the last successful run', async () => {
+        mockFindLastSuccessfulRun.mockResolvedValue({ id: 41, headSha, createdAt: '2025-01-06T09:00:00Z' });
+
+        const result = await getSmartDefaults('schedule', 'gh-token');
+
+        expect(result.skipReason).toBe('no new commits since the last successful run (def4567)');
+        expect(result.changes).toBeUndefined();
+      });
+
+      test('skips when there is no previous successful run', async () => {
+        mockFindLastSuccessfulRun.mockResolvedValue(undefined);
+
+        const result = await getSmartDefaults('schedule', 'gh-token');
+
+        expect(result.skipReason).toBe(
+          'no previous successful run of this workflow found; set schedule-since to choose a starting point'
+        );
+      });
+
+      test('uses a commit SHA from schedule-since without calling the API', async () => {
+        const result = await getSmartDefaults('schedule', undefined, previousSha);
+
+        expect(mockFindLastSuccessfulRun).not.toHaveBeenCalled();
+        expect(result.changes).toEqual([{ commits: { startSha: previousSha } }]);
+        expect(result.window).toEqual({ start: previousSha, end: headSha });
+        expect(result.body).toBe('Document all changes since commit abc1234');
+      });
+
+      test('uses a time range when schedule-since is a timestamp', async () => {
+        jest.useFakeTimers().setSystemTime(new Date('2025-01-13T09:00:00Z'));
+        try {
+          const result = await getSmartDefaults('schedule', undefined, '2025-01-06T09:00:00+00:00');
+
+          expect(result.changes).toEqual([
+            { timeRange: { start: '2025-01-06T09:00:00.000Z', end: '2025-01-13T09:00:00.000Z' } },
+          ]);
+          expect(result.window).toEqual({ start: '2025-01-06T09:00:00.000Z', end: '2025-01-13T09:00:00.000Z' });
+        } finally {
+          jest.useRealTimers();
+        }
+      });
+
+      test('throws error for an invalid schedule-since value', async () => {
+        await expect(getSmartDefaults('schedule', undefined, 'last tuesday')).rejects.toThrow(
+          'schedule-since must be a commit SHA or an ISO 8601 timestamp, got "last tuesday"'
+        );
+      });
+
+      test('throws error without a github token or schedule-since', async () => {
+        await expect(getSmartDefaults('schedule')).rejects.toThrow(
+          'github-token is required for event-type: schedule to find the previous successful run'
+        );
+      });
+    });
+
     describe('error cases', () => {
       beforeEach(() => {
         (github.context as any).payload = {};
       });
 
-      test('throws error for unsupported event type', () => {
-        expect(() => getSmartDefaults('custom' as any)).toThrow(
+      test('throws error for unsupported event type', async () => {
+        await expect(getSmartDefaults('custom' as any)).rejects.toThrow(
           'Unsupported event type: custom'
         );
       });
 
-      test('throws error for invalid event type', () => {
-        expect(() => getSmartDefaults('invalid' as any)).toThrow(
+      test('throws error for invalid event type', async () => {
+        await expect(getSmartDefaults('invalid' as any)).rejects.toThrow(
           'Unsupported event type: invalid'
         );
       });
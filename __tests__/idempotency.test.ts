@@ -0,0 +1,82 @@
+// __tests__/idempotency.test.ts
+import * as github from '@actions/github';
+import { buildIdempotencyKey } from '../src/idempotency';
+import { ActionInputs, DocHolidayRequest } from '../src/types';
+
+// Mock @actions/github
+jest.mock('@actions/github', () => ({
+  context: {
+    runId: 1234,
+    runAttempt: 1,
+    job: 'docs',
+    repo: {
+      owner: 'test-owner',
+      repo: 'test-repo',
+    },
+  },
+}));
+
+describe('buildIdempotencyKey', () => {
+  const inputs: ActionInputs = { apiToken: 'test-token', eventType: 'release' };
+  const request: DocHolidayRequest = {
+    docRequest: {
+      title: 'Release notes',
+      body: 'Document the release',
+      sourceConnection: 'test-owner/test-repo',
+      changes: [{ releases: { count: 1 } }],
+    },
+  };
+
+  beforeEach(() => {
+    process.env.GITHUB_ACTION = 'doc-holiday';
+  });
+
+  afterEach(() => {
+    delete process.env.GITHUB_ACTION;
+  });
+
+  it('should derive a stable key from the run and changeset', () => {
+    const key = buildIdempotencyKey(inputs, request);
+
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(buildIdempotencyKey(inputs, { docRequest: { ...request.docRequest, title: 'Other title' } })).toBe(key);
+  });
+
+  it('should change with the changeset, event type, step and job name', () => {
+    const key = buildIdempotencyKey(inputs, request);
+
+    expect(
+      buildIdempotencyKey(inputs, { docRequest: { ...request.docRequest, changes: [{ releases: { count: 2 } }] } })
+    ).not.toBe(key);
+    expect(buildIdempotencyKey({ ...inputs, eventType: 'merge' }, request)).not.toBe(key);
+    expect(buildIdempotencyKey(inputs, request, 'api-reference')).not.toBe(key);
+
+    process.env.GITHUB_ACTION = 'doc-holiday-2';
+    expect(buildIdempotencyKey(inputs, request)).not.toBe(key);
+  });
+
+  it('should reuse the key when the workflow is re-run', () => {
+    const key = buildIdempotencyKey(inputs, request);
+    const context = github.context as { runAttempt: number };
+
+    context.runAttempt = 2;
+    expect(buildIdempotencyKey(inputs, request)).toBe(key);
+    context.runAttempt = 1;
+  });
+
+  it('should change with the workflow run', () => {
+    const key = buildIdempotencyKey(inputs, request);
+    const context = github.context as { runId: number };
+
+    context.runId = 5678;
+    expect(buildIdempotencyKey(inputs, request)).not.toBe(key);
+    context.runId = 1234;
+  });
+
+  it('should use the idempotency-key input when set', () => {
+    const overridden = { ...inputs, idempotencyKey: 'release-v1.0.0' };
+
+    expect(buildIdempotencyKey(overridden, request)).toBe('release-v1.0.0');
+    expect(buildIdempotencyKey(overridden, request, 'api-reference')).toBe('release-v1.0.0:api-reference');
+  });
+});
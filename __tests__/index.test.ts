@@ -8,12 +8,42 @@ jest.mock('../src/inputs');
 jest.mock('../src/github-context');
 jest.mock('../src/changes');
 jest.mock('../src/api');
+jest.mock('../src/config');
+jest.mock('../src/paths');
+jest.mock('../src/packages');
+jest.mock('../src/labels');
+jest.mock('../src/enrichment');
+jest.mock('../src/idempotency');
+jest.mock('../src/pr-comment');
+jest.mock('../src/release-notes');
+jest.mock('../src/summary');
+jest.mock('../src/time-range');
+jest.mock('../src/refs');
+jest.mock('../src/preflight');
 
 // Import after mocking
 import { parseInputs } from '../src/inputs';
 import { getSmartDefaults, inferSourceConnection } from '../src/github-context';
 import { buildChanges } from '../src/changes';
-import { createJob, constructJobUrl } from '../src/api';
+import { createJob, getJob, waitForJob, getJobResult, constructJobUrl } from '../src/api';
+import { loadJobsConfig } from '../src/config';
+import { filterPaths, getChangedFiles } from '../src/paths';
+import { findAffectedPackages, parsePackagesConfig } from '../src/packages';
+import { findSkipLabel, publicationsForLabels } from '../src/labels';
+import { collectPullRequestContext } from '../src/enrichment';
+import {
+  PREVIEW_COMMENT_MARKER,
+  buildJobComment,
+  buildPreviewComment,
+  findPreviewJob,
+  upsertPullRequestComment,
+} from '../src/pr-comment';
+import { updateReleaseBody } from '../src/release-notes';
+import { writeBatchSummary, writeDryRunSummary, writeJobSummary } from '../src/summary';
+import { resolveTimeRange } from '../src/time-range';
+import { resolveCommitRange } from '../src/refs';
+import { verifyChanges } from '../src/preflight';
+import { AuthError, RateLimitError } from '../src/errors';
 import { run } from '../src/index';
 
 // Create typed mocks
@@ -23,11 +53,37 @@ const mockGetSmartDefaults = getSmartDefaults as jest.MockedFunction<typeof getS
 const mockInferSourceConnection = inferSourceConnection as jest.MockedFunction<typeof inferSourceConnection>;
 const mockBuildChanges = buildChanges as jest.MockedFunction<typeof buildChanges>;
 const mockCreateJob = createJob as jest.MockedFunction<typeof createJob>;
+const mockGetJob = getJob as jest.MockedFunction<typeof getJob>;
+const mockWaitForJob = waitForJob as jest.MockedFunction<typeof waitForJob>;
+const mockGetJobResult = getJobResult as jest.MockedFunction<typeof getJobResult>;
 const mockConstructJobUrl = constructJobUrl as jest.MockedFunction<typeof constructJobUrl>;
+const mockGetChangedFiles = getChangedFiles as jest.MockedFunction<typeof getChangedFiles>;
+const mockFilterPaths = filterPaths as jest.MockedFunction<typeof filterPaths>;
+const mockFindSkipLabel = findSkipLabel as jest.MockedFunction<typeof findSkipLabel>;
+const mockPublicationsForLabels = publicationsForLabels as jest.MockedFunction<typeof publicationsForLabels>;
+const mockCollectPullRequestContext = collectPullRequestContext as jest.MockedFunction<typeof collectPullRequestContext>;
+const mockParsePackagesConfig = parsePackagesConfig as jest.MockedFunction<typeof parsePackagesConfig>;
+const mockFindAffectedPackages = findAffectedPackages as jest.MockedFunction<typeof findAffectedPackages>;
+const mockLoadJobsConfig = loadJobsConfig as jest.MockedFunction<typeof loadJobsConfig>;
+const mockBuildJobComment = buildJobComment as jest.MockedFunction<typeof buildJobComment>;
+const mockBuildPreviewComment = buildPreviewComment as jest.MockedFunction<typeof buildPreviewComment>;
+const mockFindPreviewJob = findPreviewJob as jest.MockedFunction<typeof findPreviewJob>;
+const mockUpsertPullRequestComment = upsertPullRequestComment as jest.MockedFunction<typeof upsertPullRequestComment>;
+const mockUpdateReleaseBody = updateReleaseBody as jest.MockedFunction<typeof updateReleaseBody>;
+const mockWriteDryRunSummary = writeDryRunSummary as jest.MockedFunction<typeof writeDryRunSummary>;
+const mockWriteJobSummary = writeJobSummary as jest.MockedFunction<typeof writeJobSummary>;
+const mockWriteBatchSummary = writeBatchSummary as jest.MockedFunction<typeof writeBatchSummary>;
+const mockResolveTimeRange = resolveTimeRange as jest.MockedFunction<typeof resolveTimeRange>;
+const mockResolveCommitRange = resolveCommitRange as jest.MockedFunction<typeof resolveCommitRange>;
+const mockVerifyChanges = verifyChanges as jest.MockedFunction<typeof verifyChanges>;
 
 describe('index.ts - main orchestration', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockPublicationsForLabels.mockReturnValue([]);
+    mockResolveTimeRange.mockImplementation(async changeset => changeset);
+    mockResolveCommitRange.mockImplementation(async changeset => changeset);
+    mockVerifyChanges.mockImplementation(async changes => changes);
   });
 
   describe('Smart Mode: Release', () => {
@@ -52,7 +108,7 @@ describe('index.ts - main orchestration', () => {
       };
 
       mockParseInputs.mockReturnValue(mockInputs);
-      mockGetSmartDefaults.mockReturnValue(mockSmartDefaults);
+      mockGetSmartDefaults.mockResolvedValue(mockSmartDefaults);
       mockInferSourceConnection.mockReturnValue('owner/repo');
       mockCreateJob.mockResolvedValue(mockResponse);
       mockConstructJobUrl.mockReturnValue('https://app.doc.holiday/jobs/job-123');
@@ -63,7 +119,7 @@ describe('index.ts - main orchestration', () => {
       // Assert
       expect(mockCore.info).toHaveBeenCalledWith('Starting doc.holiday GitHub Action...');
       expect(mockParseInputs).toHaveBeenCalledTimes(1);
-      expect(mockGetSmartDefaults).toHaveBeenCalledWith('release');
+      expect(mockGetSmartDefaults).toHaveBeenCalledWith('release', undefined, undefined);
       expect(mockInferSourceConnection).toHaveBeenCalledTimes(1);
 
       expect(mockCreateJob).toHaveBeenCalledWith('test-token', {
@@ -73,7 +129,7 @@ describe('index.ts - main orchestration', () => {
           sourceConnection: 'owner/repo',
           eventType: 'release',
         },
-      });
+      }, undefined, { idempotencyKey: undefined });
 
       expect(mockCore.setOutput).toHaveBeenCalledWith('job-id', 'job-123');
       expect(mockCore.setOutput).toHaveBeenCalledWith('job-state', 'requested');
@@ -83,6 +139,33 @@ describe('index.ts - main orchestration', () => {
       expect(mockCore.setFailed).not.toHaveBeenCalled();
     });
 
+    it('should ignore title and body inputs in release mode', async () => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        eventType: 'release',
+        title: 'Explicit title',
+        body: 'Explicit body',
+      });
+      mockGetSmartDefaults.mockResolvedValue({
+        title: 'Release notes for v1.0.0',
+        body: 'Release body content',
+        eventType: 'release',
+      });
+      mockInferSourceConnection.mockReturnValue('owner/repo');
+      mockCreateJob.mockResolvedValue({ id: 'job-123', orgId: 'org-456', type: 'doc', state: 'requested' });
+
+      await run();
+
+      expect(mockCreateJob).toHaveBeenCalledWith('test-token', {
+        docRequest: {
+          title: 'Release notes for v1.0.0',
+          body: 'Release body content',
+          sourceConnection: 'owner/repo',
+          eventType: 'release',
+        },
+      }, undefined, { idempotencyKey: undefined });
+    });
+
     it('should handle release mode with changeset inputs', async () => {
       // Arrange
       const mockInputs: ActionInputs = {
@@ -109,7 +192,7 @@ describe('index.ts - main orchestration', () => {
       };
 
       mockParseInputs.mockReturnValue(mockInputs);
-      mockGetSmartDefaults.mockReturnValue(mockSmartDefaults);
+      mockGetSmartDefaults.mockResolvedValue(mockSmartDefaults);
       mockInferSourceConnection.mockReturnValue('owner/repo');
       mockBuildChanges.mockReturnValue(mockChanges);
       mockCreateJob.mockResolvedValue(mockResponse);
@@ -131,7 +214,169 @@ describe('index.ts - main orchestration', () => {
           eventType: 'release',
           changes: mockChanges,
         },
+      }, undefined, { idempotencyKey: undefined });
+    });
+  });
+
+  describe('Relative changesets', () => {
+    it('should resolve the time range and report the window', async () => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        title: 'Weekly docs',
+        body: 'Body',
+        githubToken: 'gh-token',
+        changeset: { timeRangeStart: 'since-last-release', timeRangeEnd: '2025-06-18T15:30:00Z' },
+      });
+      mockResolveTimeRange.mockResolvedValue({
+        timeRangeStart: '2025-06-01T12:00:00Z',
+        timeRangeEnd: '2025-06-18T15:30:00Z',
+      });
+      mockBuildChanges.mockReturnValue([
+        { timeRange: { start: '2025-06-01T12:00:00Z', end: '2025-06-18T15:30:00Z' } },
+      ]);
+      mockInferSourceConnection.mockReturnValue('owner/repo');
+      mockCreateJob.mockResolvedValue({ id: 'job-1', orgId: 'org', type: 'doc', state: 'requested' });
+
+      await run();
+
+      expect(mockResolveTimeRange).toHaveBeenCalledWith(
+        { timeRangeStart: 'since-last-release', timeRangeEnd: '2025-06-18T15:30:00Z' },
+        'gh-token'
+      );
+      expect(mockBuildChanges).toHaveBeenCalledWith({
+        timeRangeStart: '2025-06-01T12:00:00Z',
+        timeRangeEnd: '2025-06-18T15:30:00Z',
+      });
+      expect(mockCore.info).toHaveBeenCalledWith('Change window: 2025-06-01T12:00:00Z..2025-06-18T15:30:00Z');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('window-start', '2025-06-01T12:00:00Z');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('window-end', '2025-06-18T15:30:00Z');
+      expect(mockCore.setFailed).not.toHaveBeenCalled();
+    });
+
+    it('should resolve commit ranges to SHAs before building changes', async () => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        title: 'Docs',
+        body: 'Body',
+        changeset: { commitsRange: { start: 'HEAD~3', end: 'HEAD', symmetric: false } },
+      });
+      mockResolveCommitRange.mockResolvedValue({
+        commitsStartSha: 'abc1234',
+        commitsEndSha: 'def5678',
+        commitsIncludeStart: false,
+      });
+      mockBuildChanges.mockReturnValue([
+        { commits: { startSha: 'abc1234', endSha: 'def5678', includeStartCommit: false } },
+      ]);
+      mockInferSourceConnection.mockReturnValue('owner/repo');
+      mockCreateJob.mockResolvedValue({ id: 'job-1', orgId: 'org', type: 'doc', state: 'requested' });
+
+      await run();
+
+      expect(mockResolveCommitRange).toHaveBeenCalledWith(
+        { commitsRange: { start: 'HEAD~3', end: 'HEAD', symmetric: false } },
+        undefined
+      );
+      expect(mockBuildChanges).toHaveBeenCalledWith({
+        commitsStartSha: 'abc1234',
+        commitsEndSha: 'def5678',
+        commitsIncludeStart: false,
+      });
+    });
+
+    it('should fail when the time range cannot be resolved', async () => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        title: 'Weekly docs',
+        body: 'Body',
+        githubToken: 'gh-token',
+        changeset: { timeRangeStart: 'since-last-release', timeRangeEnd: '2025-06-18T15:30:00Z' },
+      });
+      mockResolveTimeRange.mockRejectedValue(
+        new Error('time-range-start is since-last-release but no earlier published release was found')
+      );
+
+      await run();
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        'time-range-start is since-last-release but no earlier published release was found'
+      );
+      expect(mockCreateJob).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Pre-flight verification', () => {
+    beforeEach(() => {
+      mockInferSourceConnection.mockReturnValue('owner/repo');
+      mockCreateJob.mockResolvedValue({ id: 'job-1', orgId: 'org', type: 'doc', state: 'requested' });
+    });
+
+    it('should send the verified changes with expanded SHAs', async () => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        title: 'Docs',
+        body: 'Body',
+        githubToken: 'gh-token',
+        changeset: { commitsSinceSha: 'abc1234' },
+      });
+      mockBuildChanges.mockReturnValue([{ commits: { startSha: 'abc1234' } }]);
+      mockVerifyChanges.mockResolvedValue([{ commits: { startSha: 'abc1234'.padEnd(40, '0') } }]);
+
+      await run();
+
+      expect(mockVerifyChanges).toHaveBeenCalledWith([{ commits: { startSha: 'abc1234' } }], 'gh-token');
+      expect(mockCreateJob).toHaveBeenCalledWith(
+        'test-token',
+        expect.objectContaining({
+          docRequest: expect.objectContaining({ changes: [{ commits: { startSha: 'abc1234'.padEnd(40, '0') } }] }),
+        }),
+        undefined,
+        { idempotencyKey: undefined }
+      );
+    });
+
+    it('should fail before creating the job when a ref does not exist', async () => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        title: 'Docs',
+        body: 'Body',
+        changeset: { tagsStart: 'v9.9.9' },
+      });
+      mockBuildChanges.mockReturnValue([{ tags: { start: 'v9.9.9' } }]);
+      mockVerifyChanges.mockRejectedValue(new Error('Tag v9.9.9 does not exist in owner/repo.'));
+
+      await run();
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith('Tag v9.9.9 does not exist in owner/repo.');
+      expect(mockCreateJob).not.toHaveBeenCalled();
+    });
+
+    it('should not verify changes derived from the event', async () => {
+      mockParseInputs.mockReturnValue({ apiToken: 'test-token', eventType: 'merge' });
+      mockGetSmartDefaults.mockResolvedValue({
+        title: 'PR',
+        body: 'Body',
+        eventType: 'merge',
+        changes: [{ commits: { startSha: 'abc1234', endSha: 'def5678' } }],
+      });
+
+      await run();
+
+      expect(mockVerifyChanges).not.toHaveBeenCalled();
+      expect(mockCreateJob).toHaveBeenCalled();
+    });
+
+    it('should verify hand-entered dispatch SHAs', async () => {
+      mockParseInputs.mockReturnValue({ apiToken: 'test-token', eventType: 'dispatch' });
+      mockGetSmartDefaults.mockResolvedValue({
+        title: 'Manual',
+        body: 'Body',
+        changes: [{ commits: { startSha: 'abc1234' } }],
       });
+
+      await run();
+
+      expect(mockVerifyChanges).toHaveBeenCalledWith([{ commits: { startSha: 'abc1234' } }], undefined);
     });
   });
 
@@ -157,7 +402,7 @@ describe('index.ts - main orchestration', () => {
       };
 
       mockParseInputs.mockReturnValue(mockInputs);
-      mockGetSmartDefaults.mockReturnValue(mockSmartDefaults);
+      mockGetSmartDefaults.mockResolvedValue(mockSmartDefaults);
       mockInferSourceConnection.mockReturnValue('owner/repo');
       mockCreateJob.mockResolvedValue(mockResponse);
       mockConstructJobUrl.mockReturnValue('https://app.doc.holiday/jobs/job-789');
@@ -167,7 +412,7 @@ describe('index.ts - main orchestration', () => {
 
       // Assert
       expect(mockCore.info).toHaveBeenCalledWith('Smart mode: merge');
-      expect(mockGetSmartDefaults).toHaveBeenCalledWith('merge');
+      expect(mockGetSmartDefaults).toHaveBeenCalledWith('merge', undefined, undefined);
 
       expect(mockCreateJob).toHaveBeenCalledWith('test-token', {
         docRequest: {
@@ -176,10 +421,342 @@ describe('index.ts - main orchestration', () => {
           sourceConnection: 'owner/repo',
           eventType: 'merge',
         },
-      });
+      }, undefined, { idempotencyKey: undefined });
 
       expect(mockCore.setOutput).toHaveBeenCalledWith('job-id', 'job-789');
     });
+
+    it('should ignore title and body inputs in merge mode', async () => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        eventType: 'merge',
+        title: 'Explicit title',
+        body: 'Explicit body',
+      });
+      mockGetSmartDefaults.mockResolvedValue({
+        title: 'Documentation for PR #123: Add new feature',
+        body: 'PR body content',
+        eventType: 'merge',
+      });
+      mockInferSourceConnection.mockReturnValue('owner/repo');
+      mockCreateJob.mockResolvedValue({ id: 'job-789', orgId: 'org-456', type: 'doc', state: 'requested' });
+
+      await run();
+
+      expect(mockCreateJob).toHaveBeenCalledWith('test-token', {
+        docRequest: {
+          title: 'Documentation for PR #123: Add new feature',
+          body: 'PR body content',
+          sourceConnection: 'owner/repo',
+          eventType: 'merge',
+        },
+      }, undefined, { idempotencyKey: undefined });
+    });
+  });
+
+  describe('Smart Mode: Pull Request Preview', () => {
+    beforeEach(() => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        eventType: 'pull-request',
+        githubToken: 'gh-token',
+        labels: ['docs'],
+        commentOnPr: true,
+      });
+      mockGetSmartDefaults.mockResolvedValue({
+        title: 'Documentation preview for PR #7: Add search',
+        body: 'Adds /search',
+        changes: [{ commits: { startSha: 'base123', endSha: 'head456', includeStartCommit: false } }],
+        labels: ['preview'],
+        pullRequestNumber: 7,
+        headSha: 'head456',
+      });
+      mockInferSourceConnection.mockReturnValue('owner/repo');
+      mockCreateJob.mockResolvedValue({ id: 'job-new', orgId: 'org-456', type: 'doc', state: 'requested' });
+      mockConstructJobUrl.mockImplementation(id => `https://app.doc.holiday/jobs/${id}`);
+      mockBuildPreviewComment.mockReturnValue('preview comment');
+    });
+
+    it('should create a preview job with merged labels and record it on the PR', async () => {
+      mockFindPreviewJob.mockResolvedValue(undefined);
+
+      await run();
+
+      expect(mockFindPreviewJob).toHaveBeenCalledWith('gh-token', 7);
+      expect(mockCreateJob).toHaveBeenCalledWith('test-token', {
+        docRequest: {
+          title: 'Documentation preview for PR #7: Add search',
+          body: 'Adds /search',
+          sourceConnection: 'owner/repo',
+          labels: ['docs', 'preview'],
+          changes: [{ commits: { startSha: 'base123', endSha: 'head456', includeStartCommit: false } }],
+        },
+      }, undefined, { idempotencyKey: undefined });
+      expect(mockBuildPreviewComment).toHaveBeenCalledWith(
+        { jobId: 'job-new', headSha: 'head456' },
+        'requested',
+        'https://app.doc.holiday/jobs/job-new',
+        undefined
+      );
+      expect(mockUpsertPullRequestComment).toHaveBeenCalledWith('gh-token', 7, 'preview comment', PREVIEW_COMMENT_MARKER);
+      // The preview comment replaces the regular job comment
+      expect(mockUpsertPullRequestComment).toHaveBeenCalledTimes(1);
+    });
+
+    it('should supersede the earlier job when the head has moved', async () => {
+      mockFindPreviewJob.mockResolvedValue({ jobId: 'job-old', headSha: 'head123' });
+
+      await run();
+
+      expect(mockCreateJob).toHaveBeenCalledTimes(1);
+      expect(mockBuildPreviewComment).toHaveBeenCalledWith(
+        { jobId: 'job-new', headSha: 'head456' },
+        'requested',
+        'https://app.doc.holiday/jobs/job-new',
+        'job-old'
+      );
+      expect(mockCore.setOutput).toHaveBeenCalledWith('job-id', 'job-new');
+    });
+
+    it('should reuse the earlier job when the head is unchanged', async () => {
+      mockFindPreviewJob.mockResolvedValue({ jobId: 'job-old', headSha: 'head456' });
+      mockGetJob.mockResolvedValue({ id: 'job-old', orgId: 'org-456', type: 'doc', state: 'done' });
+
+      await run();
+
+      expect(mockGetJob).toHaveBeenCalledWith('test-token', 'job-old', undefined);
+      expect(mockCreateJob).not.toHaveBeenCalled();
+      expect(mockUpsertPullRequestComment).not.toHaveBeenCalled();
+      expect(mockCore.info).toHaveBeenCalledWith('Pull request head is unchanged; reusing preview job job-old');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('job-id', 'job-old');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('job-url', 'https://app.doc.holiday/jobs/job-old');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('job-state', 'done');
+      expect(mockCore.setFailed).not.toHaveBeenCalled();
+    });
+
+    it('should create a new job when the earlier job cannot be fetched', async () => {
+      mockFindPreviewJob.mockResolvedValue({ jobId: 'job-old', headSha: 'head456' });
+      mockGetJob.mockRejectedValue(new Error('Doc.holiday API error (404): not found'));
+
+      await run();
+
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'Failed to fetch preview job job-old, creating a new one: Doc.holiday API error (404): not found'
+      );
+      expect(mockCreateJob).toHaveBeenCalledTimes(1);
+      expect(mockBuildPreviewComment).toHaveBeenCalledWith(
+        expect.anything(),
+        'requested',
+        expect.any(String),
+        'job-old'
+      );
+    });
+
+    it('should create a new job when the preview comment cannot be read', async () => {
+      mockFindPreviewJob.mockRejectedValue(new Error('Resource not accessible by integration'));
+
+      await run();
+
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'Failed to look up the preview job on PR #7: Resource not accessible by integration'
+      );
+      expect(mockCreateJob).toHaveBeenCalledTimes(1);
+      expect(mockCore.setFailed).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Smart Mode: Push', () => {
+    it('should complete full flow for push mode without an API eventType', async () => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        eventType: 'push',
+      });
+      mockGetSmartDefaults.mockResolvedValue({
+        title: 'Documentation for push to main',
+        body: 'Document changes pushed to main',
+        changes: [{ commits: { startSha: 'aaa', endSha: 'bbb', includeStartCommit: false } }],
+      });
+      mockInferSourceConnection.mockReturnValue('owner/repo');
+      mockCreateJob.mockResolvedValue({ id: 'job-push', orgId: 'org-456', type: 'doc', state: 'requested' });
+      mockConstructJobUrl.mockReturnValue('https://app.doc.holiday/jobs/job-push');
+
+      await run();
+
+      expect(mockCore.info).toHaveBeenCalledWith('Smart mode: push');
+      expect(mockGetSmartDefaults).toHaveBeenCalledWith('push', undefined, undefined);
+      expect(mockCreateJob).toHaveBeenCalledWith('test-token', {
+        docRequest: {
+          title: 'Documentation for push to main',
+          body: 'Document changes pushed to main',
+          sourceConnection: 'owner/repo',
+          changes: [{ commits: { startSha: 'aaa', endSha: 'bbb', includeStartCommit: false } }],
+        },
+      }, undefined, { idempotencyKey: undefined });
+      expect(mockWriteJobSummary).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'push' }));
+    });
+
+    it('should skip job creation when smart defaults request a skip', async () => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        eventType: 'push',
+      });
+      mockGetSmartDefaults.mockResolvedValue({
+        title: 'Documentation for push to feature',
+        body: '',
+        skipReason: 'branch feature was deleted',
+      });
+
+      await run();
+
+      expect(mockCreateJob).not.toHaveBeenCalled();
+      expect(mockCore.info).toHaveBeenCalledWith('Skipping job creation: branch feature was deleted');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('skipped', 'true');
+      expect(mockCore.setFailed).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Smart Mode: Dispatch', () => {
+    beforeEach(() => {
+      mockGetSmartDefaults.mockResolvedValue({
+        title: 'Document the new API',
+        body: 'Cover the endpoints added this sprint',
+        changes: [{ commits: { startSha: 'abc123' } }],
+        publications: ['api-docs'],
+      });
+      mockInferSourceConnection.mockReturnValue('owner/repo');
+      mockCreateJob.mockResolvedValue({ id: 'job-dispatch', orgId: 'org-456', type: 'doc', state: 'requested' });
+      mockConstructJobUrl.mockReturnValue('https://app.doc.holiday/jobs/job-dispatch');
+    });
+
+    it('should use dispatch inputs for title, body, changes and publications', async () => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        eventType: 'dispatch',
+      });
+
+      await run();
+
+      expect(mockGetSmartDefaults).toHaveBeenCalledWith('dispatch', undefined, undefined);
+      expect(mockCreateJob).toHaveBeenCalledWith('test-token', {
+        docRequest: {
+          title: 'Document the new API',
+          body: 'Cover the endpoints added this sprint',
+          sourceConnection: 'owner/repo',
+          publications: ['api-docs'],
+          changes: [{ commits: { startSha: 'abc123' } }],
+        },
+      }, undefined, { idempotencyKey: undefined });
+    });
+
+    it('should let explicit action inputs take precedence over dispatch inputs', async () => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        eventType: 'dispatch',
+        title: 'Explicit title',
+        body: 'Explicit body',
+        publications: ['user-guide'],
+        changeset: { commitsCount: 5 },
+      });
+      mockBuildChanges.mockReturnValue([{ commits: { count: 5 } }]);
+
+      await run();
+
+      expect(mockCreateJob).toHaveBeenCalledWith('test-token', {
+        docRequest: {
+          title: 'Explicit title',
+          body: 'Explicit body',
+          sourceConnection: 'owner/repo',
+          publications: ['user-guide'],
+          changes: [{ commits: { count: 5 } }],
+        },
+      }, undefined, { idempotencyKey: undefined });
+    });
+  });
+
+  describe('Smart Mode: Schedule', () => {
+    it('should expose the resolved change window as outputs', async () => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        eventType: 'schedule',
+        githubToken: 'gh-token',
+        scheduleSince: 'abc1234',
+      });
+      mockGetSmartDefaults.mockResolvedValue({
+        title: 'Scheduled documentation update',
+        body: 'Document all changes since commit abc1234',
+        changes: [{ commits: { startSha: 'abc1234' } }],
+        window: { start: 'abc1234', end: 'def5678' },
+      });
+      mockInferSourceConnection.mockReturnValue('owner/repo');
+      mockCreateJob.mockResolvedValue({ id: 'job-cron', orgId: 'org-456', type: 'doc', state: 'requested' });
+      mockConstructJobUrl.mockReturnValue('https://app.doc.holiday/jobs/job-cron');
+
+      await run();
+
+      expect(mockGetSmartDefaults).toHaveBeenCalledWith('schedule', 'gh-token', 'abc1234');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('window-start', 'abc1234');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('window-end', 'def5678');
+      expect(mockCreateJob).toHaveBeenCalledWith('test-token', {
+        docRequest: {
+          title: 'Scheduled documentation update',
+          body: 'Document all changes since commit abc1234',
+          sourceConnection: 'owner/repo',
+          changes: [{ commits: { startSha: 'abc1234' } }],
+        },
+      }, undefined, { idempotencyKey: undefined });
+    });
+
+    it('should still expose the window when the run is skipped', async () => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        eventType: 'schedule',
+        githubToken: 'gh-token',
+      });
+      mockGetSmartDefaults.mockResolvedValue({
+        title: 'Scheduled documentation update',
+        body: '',
+        window: { start: 'def5678', end: 'def5678' },
+        skipReason: 'no new commits since the last successful run (def5678)',
+      });
+
+      await run();
+
+      expect(mockCreateJob).not.toHaveBeenCalled();
+      expect(mockCore.setOutput).toHaveBeenCalledWith('window-start', 'def5678');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('skipped', 'true');
+    });
+  });
+
+  describe('Smart Mode: Tag', () => {
+    it('should pass the github token when resolving tag defaults', async () => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        eventType: 'tag',
+        githubToken: 'gh-token',
+      });
+      mockGetSmartDefaults.mockResolvedValue({
+        title: 'Release notes for v1.4.0',
+        body: 'Document changes in v1.4.0 since v1.3.0',
+        eventType: 'release',
+        changes: [{ tags: { start: 'v1.3.0', end: 'v1.4.0' } }],
+      });
+      mockInferSourceConnection.mockReturnValue('owner/repo');
+      mockCreateJob.mockResolvedValue({ id: 'job-tag', orgId: 'org-456', type: 'doc', state: 'requested' });
+      mockConstructJobUrl.mockReturnValue('https://app.doc.holiday/jobs/job-tag');
+
+      await run();
+
+      expect(mockGetSmartDefaults).toHaveBeenCalledWith('tag', 'gh-token', undefined);
+      expect(mockCreateJob).toHaveBeenCalledWith('test-token', {
+        docRequest: {
+          title: 'Release notes for v1.4.0',
+          body: 'Document changes in v1.4.0 since v1.3.0',
+          sourceConnection: 'owner/repo',
+          eventType: 'release',
+          changes: [{ tags: { start: 'v1.3.0', end: 'v1.4.0' } }],
+        },
+      }, undefined, { idempotencyKey: undefined });
+    });
   });
 
   describe('Manual/Custom Mode', () => {
@@ -217,7 +794,7 @@ describe('index.ts - main orchestration', () => {
           body: 'Generate docs for last 10 commits',
           sourceConnection: 'owner/repo',
         },
-      });
+      }, undefined, { idempotencyKey: undefined });
 
       expect(mockCore.setOutput).toHaveBeenCalledWith('job-id', 'job-custom-123');
     });
@@ -253,7 +830,7 @@ describe('index.ts - main orchestration', () => {
           body: 'Generate docs',
           sourceConnection: 'owner/repo',
         },
-      });
+      }, undefined, { idempotencyKey: undefined });
     });
   });
 
@@ -298,7 +875,7 @@ describe('index.ts - main orchestration', () => {
           comments: ['comment1', 'comment2'],
           relevantLinks: ['https://example.com', 'https://example.org'],
         },
-      });
+      }, undefined, { idempotencyKey: undefined });
     });
 
     it('should not include custom eventType in API request', async () => {
@@ -361,26 +938,22 @@ describe('index.ts - main orchestration', () => {
         docRequest: expect.objectContaining({
           sourceConnection: 'my-custom-connection',
         }),
-      });
+      }, undefined, { idempotencyKey: undefined });
     });
   });
 
-  describe('Changeset Inputs', () => {
-    it('should build and include changes when changeset provided', async () => {
-      // Arrange
+  describe('Custom Base URLs', () => {
+    it('should pass api and app URLs to the API client', async () => {
       const mockInputs: ActionInputs = {
         apiToken: 'test-token',
+        apiUrl: 'https://api.staging.doc.holiday',
+        appUrl: 'https://app.staging.doc.holiday',
         title: 'Test',
         body: 'Test body',
-        changeset: {
-          commitsCount: 5,
-        },
       };
 
-      const mockChanges = [{ commits: { count: 5 } }];
-
       const mockResponse: DocHolidayResponse = {
-        id: 'job-changeset',
+        id: 'job-staging',
         orgId: 'org-456',
         type: 'doc',
         state: 'requested',
@@ -388,26 +961,87 @@ describe('index.ts - main orchestration', () => {
 
       mockParseInputs.mockReturnValue(mockInputs);
       mockInferSourceConnection.mockReturnValue('owner/repo');
-      mockBuildChanges.mockReturnValue(mockChanges);
       mockCreateJob.mockResolvedValue(mockResponse);
-      mockConstructJobUrl.mockReturnValue('https://app.doc.holiday/jobs/job-changeset');
+      mockConstructJobUrl.mockReturnValue('https://app.staging.doc.holiday/jobs/job-staging');
 
-      // Act
       await run();
 
-      // Assert
-      expect(mockBuildChanges).toHaveBeenCalledWith({ commitsCount: 5 });
-      expect(mockCore.info).toHaveBeenCalledWith('Changeset specification added to request');
-      expect(mockCore.warning).toHaveBeenCalledWith('Changeset inputs override any commits specified in body');
+      expect(mockCreateJob).toHaveBeenCalledWith(
+        'test-token',
+        expect.any(Object),
+        'https://api.staging.doc.holiday',
+        { idempotencyKey: undefined }
+      );
+      expect(mockConstructJobUrl).toHaveBeenCalledWith('job-staging', 'https://app.staging.doc.holiday');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('job-url', 'https://app.staging.doc.holiday/jobs/job-staging');
+    });
+  });
 
-      expect(mockCreateJob).toHaveBeenCalledWith('test-token', {
+  describe('Retry Policy', () => {
+    it('should pass max retries and the request timeout in milliseconds to the API client', async () => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        title: 'Test',
+        body: 'Test body',
+        maxRetries: 5,
+        requestTimeout: 10,
+      });
+      mockInferSourceConnection.mockReturnValue('owner/repo');
+      mockCreateJob.mockResolvedValue({ id: 'job-123', orgId: 'org-456', type: 'doc', state: 'requested' });
+
+      await run();
+
+      expect(mockCreateJob).toHaveBeenCalledWith('test-token', expect.any(Object), undefined, {
+        idempotencyKey: undefined,
+        maxRetries: 5,
+        requestTimeout: 10000,
+      });
+    });
+  });
+
+  describe('Changeset Inputs', () => {
+    it('should build and include changes when changeset provided', async () => {
+      // Arrange
+      const mockInputs: ActionInputs = {
+        apiToken: 'test-token',
+        title: 'Test',
+        body: 'Test body',
+        changeset: {
+          commitsCount: 5,
+        },
+      };
+
+      const mockChanges = [{ commits: { count: 5 } }];
+
+      const mockResponse: DocHolidayResponse = {
+        id: 'job-changeset',
+        orgId: 'org-456',
+        type: 'doc',
+        state: 'requested',
+      };
+
+      mockParseInputs.mockReturnValue(mockInputs);
+      mockInferSourceConnection.mockReturnValue('owner/repo');
+      mockBuildChanges.mockReturnValue(mockChanges);
+      mockCreateJob.mockResolvedValue(mockResponse);
+      mockConstructJobUrl.mockReturnValue('https://app.doc.holiday/jobs/job-changeset');
+
+      // Act
+      await run();
+
+      // Assert
+      expect(mockBuildChanges).toHaveBeenCalledWith({ commitsCount: 5 });
+      expect(mockCore.info).toHaveBeenCalledWith('Changeset specification added to request');
+      expect(mockCore.warning).toHaveBeenCalledWith('Changeset inputs override any commits specified in body');
+
+      expect(mockCreateJob).toHaveBeenCalledWith('test-token', {
         docRequest: {
           title: 'Test',
           body: 'Test body',
           sourceConnection: 'owner/repo',
           changes: mockChanges,
         },
-      });
+      }, undefined, { idempotencyKey: undefined });
     });
 
     it('should not include changes when buildChanges returns empty array', async () => {
@@ -487,7 +1121,9 @@ describe('index.ts - main orchestration', () => {
       // Assert
       expect(mockCore.setFailed).toHaveBeenCalledWith('Invalid inputs');
       expect(mockCreateJob).not.toHaveBeenCalled();
-      expect(mockCore.setOutput).not.toHaveBeenCalled();
+      expect(mockCore.setOutput).not.toHaveBeenCalledWith('job-id', expect.anything());
+      expect(mockCore.setOutput).toHaveBeenCalledWith('error-code', 'unknown');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('error-message', 'Invalid inputs');
     });
 
     it('should call setFailed when getSmartDefaults throws', async () => {
@@ -499,9 +1135,7 @@ describe('index.ts - main orchestration', () => {
 
       const error = new Error('No release data found');
       mockParseInputs.mockReturnValue(mockInputs);
-      mockGetSmartDefaults.mockImplementation(() => {
-        throw error;
-      });
+      mockGetSmartDefaults.mockRejectedValue(error);
 
       // Act
       await run();
@@ -529,7 +1163,28 @@ describe('index.ts - main orchestration', () => {
 
       // Assert
       expect(mockCore.setFailed).toHaveBeenCalledWith('API request failed');
-      expect(mockCore.setOutput).not.toHaveBeenCalled();
+      expect(mockCore.setOutput).not.toHaveBeenCalledWith('job-id', expect.anything());
+    });
+
+    it('should output the error code of API errors', async () => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        title: 'Test',
+        body: 'Test body',
+      });
+      mockInferSourceConnection.mockReturnValue('owner/repo');
+      mockCreateJob.mockRejectedValue(
+        new RateLimitError('Rate limited (429). Space out workflow runs or raise max-retries.', { status: 429 })
+      );
+
+      await run();
+
+      expect(mockCore.setOutput).toHaveBeenCalledWith('error-code', 'rate-limit');
+      expect(mockCore.setOutput).toHaveBeenCalledWith(
+        'error-message',
+        'Rate limited (429). Space out workflow runs or raise max-retries.'
+      );
+      expect(mockCore.setFailed).toHaveBeenCalledWith('Rate limited (429). Space out workflow runs or raise max-retries.');
     });
 
     it('should call setFailed with generic message for non-Error exceptions', async () => {
@@ -566,7 +1221,7 @@ describe('index.ts - main orchestration', () => {
       };
 
       mockParseInputs.mockReturnValue(mockInputs);
-      mockGetSmartDefaults.mockReturnValue(mockSmartDefaults);
+      mockGetSmartDefaults.mockResolvedValue(mockSmartDefaults);
 
       // Act
       await run();
@@ -590,7 +1245,7 @@ describe('index.ts - main orchestration', () => {
       };
 
       mockParseInputs.mockReturnValue(mockInputs);
-      mockGetSmartDefaults.mockReturnValue(mockSmartDefaults);
+      mockGetSmartDefaults.mockResolvedValue(mockSmartDefaults);
 
       // Act
       await run();
@@ -662,6 +1317,997 @@ describe('index.ts - main orchestration', () => {
     });
   });
 
+  describe('Wait For Completion', () => {
+    const mockResponse: DocHolidayResponse = {
+      id: 'job-wait-123',
+      orgId: 'org-456',
+      type: 'doc',
+      state: 'requested',
+    };
+
+    beforeEach(() => {
+      mockInferSourceConnection.mockReturnValue('owner/repo');
+      mockCreateJob.mockResolvedValue(mockResponse);
+      mockConstructJobUrl.mockReturnValue('https://app.doc.holiday/jobs/job-wait-123');
+    });
+
+    it('should not poll when wait-for-completion is not set', async () => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        title: 'Test',
+        body: 'Test body',
+      });
+
+      await run();
+
+      expect(mockWaitForJob).not.toHaveBeenCalled();
+      expect(mockCore.setOutput).toHaveBeenCalledWith('job-state', 'requested');
+    });
+
+    it('should poll with configured interval and timeout and output the final state', async () => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        title: 'Test',
+        body: 'Test body',
+        waitForCompletion: true,
+        pollInterval: 10,
+        timeout: 300,
+      });
+      mockWaitForJob.mockResolvedValue({ ...mockResponse, state: 'done' });
+
+      await run();
+
+      expect(mockWaitForJob).toHaveBeenCalledWith('test-token', 'job-wait-123', {
+        pollInterval: 10000,
+        timeout: 300000,
+      }, undefined);
+      expect(mockCore.setOutput).toHaveBeenCalledWith('job-state', 'done');
+      expect(mockCore.setOutput).not.toHaveBeenCalledWith('job-state', 'requested');
+      expect(mockCore.setFailed).not.toHaveBeenCalled();
+    });
+
+    it('should fail when the job finishes in errored state', async () => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        title: 'Test',
+        body: 'Test body',
+        waitForCompletion: true,
+        pollInterval: 10,
+        timeout: 300,
+      });
+      mockWaitForJob.mockResolvedValue({ ...mockResponse, state: 'errored' });
+
+      await run();
+
+      expect(mockCore.setOutput).toHaveBeenCalledWith('job-id', 'job-wait-123');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('job-state', 'errored');
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        'Job job-wait-123 finished in errored state. View job: https://app.doc.holiday/jobs/job-wait-123'
+      );
+    });
+
+    it('should fail when waiting times out', async () => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        title: 'Test',
+        body: 'Test body',
+        waitForCompletion: true,
+        pollInterval: 10,
+        timeout: 30,
+      });
+      mockWaitForJob.mockRejectedValue(
+        new Error('Timed out after 30s waiting for job job-wait-123 to complete (last state: running)')
+      );
+
+      await run();
+
+      expect(mockCore.setOutput).toHaveBeenCalledWith('job-id', 'job-wait-123');
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        'Timed out after 30s waiting for job job-wait-123 to complete (last state: running)'
+      );
+    });
+  });
+
+  describe('PR Comments', () => {
+    const mockResponse: DocHolidayResponse = {
+      id: 'job-pr-123',
+      orgId: 'org-456',
+      type: 'doc',
+      state: 'requested',
+    };
+
+    beforeEach(() => {
+      mockInferSourceConnection.mockReturnValue('owner/repo');
+      mockCreateJob.mockResolvedValue(mockResponse);
+      mockConstructJobUrl.mockReturnValue('https://app.doc.holiday/jobs/job-pr-123');
+      mockGetSmartDefaults.mockResolvedValue({
+        title: 'Documentation for PR #42: Add feature',
+        body: 'PR body',
+        eventType: 'merge',
+        pullRequestNumber: 42,
+      });
+      mockBuildJobComment.mockReturnValue('comment body');
+    });
+
+    it('should comment on the merged PR when comment-on-pr is true', async () => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        eventType: 'merge',
+        commentOnPr: true,
+        githubToken: 'gh-token',
+      });
+      mockUpsertPullRequestComment.mockResolvedValue();
+
+      await run();
+
+      expect(mockBuildJobComment).toHaveBeenCalledWith(
+        'job-pr-123',
+        'requested',
+        'https://app.doc.holiday/jobs/job-pr-123'
+      );
+      expect(mockUpsertPullRequestComment).toHaveBeenCalledWith('gh-token', 42, 'comment body');
+      expect(mockCore.info).toHaveBeenCalledWith('Commented on PR #42');
+      expect(mockCore.setFailed).not.toHaveBeenCalled();
+    });
+
+    it('should not comment when comment-on-pr is not set', async () => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        eventType: 'merge',
+        githubToken: 'gh-token',
+      });
+
+      await run();
+
+      expect(mockUpsertPullRequestComment).not.toHaveBeenCalled();
+    });
+
+    it('should warn and skip when there is no pull request', async () => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        title: 'Test',
+        body: 'Test body',
+        commentOnPr: true,
+        githubToken: 'gh-token',
+      });
+
+      await run();
+
+      expect(mockUpsertPullRequestComment).not.toHaveBeenCalled();
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'comment-on-pr requires event-type: merge and a github-token; skipping PR comment'
+      );
+      expect(mockCore.setFailed).not.toHaveBeenCalled();
+    });
+
+    it('should warn but not fail when commenting fails', async () => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        eventType: 'merge',
+        commentOnPr: true,
+        githubToken: 'gh-token',
+      });
+      mockUpsertPullRequestComment.mockRejectedValue(new Error('Resource not accessible by integration'));
+
+      await run();
+
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'Failed to comment on PR #42: Resource not accessible by integration'
+      );
+      expect(mockCore.setOutput).toHaveBeenCalledWith('job-id', 'job-pr-123');
+      expect(mockCore.setFailed).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Release Body Update', () => {
+    const mockResponse: DocHolidayResponse = {
+      id: 'job-release-123',
+      orgId: 'org-456',
+      type: 'doc',
+      state: 'requested',
+    };
+
+    const mockInputs: ActionInputs = {
+      apiToken: 'test-token',
+      eventType: 'release',
+      githubToken: 'gh-token',
+      updateRelease: 'append',
+      waitForCompletion: true,
+      pollInterval: 30,
+      timeout: 1800,
+    };
+
+    beforeEach(() => {
+      mockInferSourceConnection.mockReturnValue('owner/repo');
+      mockCreateJob.mockResolvedValue(mockResponse);
+      mockConstructJobUrl.mockReturnValue('https://app.doc.holiday/jobs/job-release-123');
+      mockGetSmartDefaults.mockResolvedValue({
+        title: 'Release notes for v1.0.0',
+        body: 'Release body',
+        eventType: 'release',
+        releaseId: 99,
+      });
+    });
+
+    it('should patch the release with generated notes once the job is done', async () => {
+      mockParseInputs.mockReturnValue(mockInputs);
+      mockWaitForJob.mockResolvedValue({ ...mockResponse, state: 'done' });
+      mockGetJobResult.mockResolvedValue({ id: 'job-release-123', releaseNotes: '## Generated' });
+      mockUpdateReleaseBody.mockResolvedValue();
+
+      await run();
+
+      expect(mockGetJobResult).toHaveBeenCalledWith('test-token', 'job-release-123', undefined);
+      expect(mockUpdateReleaseBody).toHaveBeenCalledWith('gh-token', 99, '## Generated', 'append');
+      expect(mockCore.info).toHaveBeenCalledWith('Release body updated (append)');
+      expect(mockCore.setFailed).not.toHaveBeenCalled();
+    });
+
+    it('should warn and leave the release alone when no notes were generated', async () => {
+      mockParseInputs.mockReturnValue(mockInputs);
+      mockWaitForJob.mockResolvedValue({ ...mockResponse, state: 'done' });
+      mockGetJobResult.mockResolvedValue({ id: 'job-release-123' });
+
+      await run();
+
+      expect(mockUpdateReleaseBody).not.toHaveBeenCalled();
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'Job job-release-123 produced no release notes; release body left unchanged'
+      );
+      expect(mockCore.setFailed).not.toHaveBeenCalled();
+    });
+
+    it('should not update the release when the job errored', async () => {
+      mockParseInputs.mockReturnValue(mockInputs);
+      mockWaitForJob.mockResolvedValue({ ...mockResponse, state: 'errored' });
+
+      await run();
+
+      expect(mockGetJobResult).not.toHaveBeenCalled();
+      expect(mockUpdateReleaseBody).not.toHaveBeenCalled();
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        'Job job-release-123 finished in errored state. View job: https://app.doc.holiday/jobs/job-release-123'
+      );
+    });
+
+    it('should fail when updating the release fails', async () => {
+      mockParseInputs.mockReturnValue(mockInputs);
+      mockWaitForJob.mockResolvedValue({ ...mockResponse, state: 'done' });
+      mockGetJobResult.mockResolvedValue({ id: 'job-release-123', releaseNotes: '## Generated' });
+      mockUpdateReleaseBody.mockRejectedValue(new Error('Not Found'));
+
+      await run();
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith('Not Found');
+    });
+  });
+
+  describe('Step Summary', () => {
+    const mockResponse: DocHolidayResponse = {
+      id: 'job-summary-123',
+      orgId: 'org-456',
+      type: 'doc',
+      state: 'requested',
+    };
+
+    beforeEach(() => {
+      mockInferSourceConnection.mockReturnValue('owner/repo');
+      mockCreateJob.mockResolvedValue(mockResponse);
+      mockConstructJobUrl.mockReturnValue('https://app.doc.holiday/jobs/job-summary-123');
+    });
+
+    it('should summarize a manual changeset', async () => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        title: 'Test',
+        body: 'Test body',
+        publications: ['api-docs'],
+        labels: ['weekly'],
+        changeset: { commitsCount: 5 },
+      });
+      mockBuildChanges.mockReturnValue([{ commits: { count: 5 } }]);
+
+      await run();
+
+      expect(mockWriteJobSummary).toHaveBeenCalledWith({
+        title: 'Test',
+        eventType: 'custom',
+        sourceConnection: 'owner/repo',
+        publications: ['api-docs'],
+        labels: ['weekly'],
+        changes: [{ commits: { count: 5 } }],
+        changesetSource: 'manual inputs',
+        jobId: 'job-summary-123',
+        jobState: 'requested',
+        jobUrl: 'https://app.doc.holiday/jobs/job-summary-123',
+      });
+    });
+
+    it('should summarize a smart default changeset', async () => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        eventType: 'release',
+      });
+      mockGetSmartDefaults.mockResolvedValue({
+        title: 'Release notes for v1.0.0',
+        body: 'Release body',
+        eventType: 'release',
+        changes: [{ releases: { count: 1 } }],
+      });
+
+      await run();
+
+      expect(mockWriteJobSummary).toHaveBeenCalledWith(expect.objectContaining({
+        eventType: 'release',
+        changes: [{ releases: { count: 1 } }],
+        changesetSource: 'smart defaults',
+      }));
+    });
+
+    it('should report when no changeset was sent', async () => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        title: 'Test',
+        body: 'Test body',
+      });
+
+      await run();
+
+      expect(mockWriteJobSummary).toHaveBeenCalledWith(expect.objectContaining({
+        changes: undefined,
+        changesetSource: 'none',
+      }));
+    });
+  });
+
+  describe('Dry Run', () => {
+    it('should output the request and skip job creation', async () => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        title: 'Test',
+        body: 'Test body',
+        dryRun: true,
+        changeset: { commitsCount: 5 },
+      });
+      mockInferSourceConnection.mockReturnValue('owner/repo');
+      mockBuildChanges.mockReturnValue([{ commits: { count: 5 } }]);
+
+      await run();
+
+      const expectedRequest = {
+        docRequest: {
+          title: 'Test',
+          body: 'Test body',
+          sourceConnection: 'owner/repo',
+          changes: [{ commits: { count: 5 } }],
+        },
+      };
+
+      expect(mockCreateJob).not.toHaveBeenCalled();
+      expect(mockCore.info).toHaveBeenCalledWith(
+        `Dry run: skipping job creation. Request:\n${JSON.stringify(expectedRequest, null, 2)}`
+      );
+      expect(mockCore.setOutput).toHaveBeenCalledWith('request-json', JSON.stringify(expectedRequest));
+      expect(mockCore.setOutput).toHaveBeenCalledWith('job-id', '');
+      expect(mockWriteDryRunSummary).toHaveBeenCalledWith([expectedRequest]);
+      expect(mockCore.setFailed).not.toHaveBeenCalled();
+    });
+
+    it('should resolve smart defaults before reporting', async () => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        eventType: 'release',
+        dryRun: true,
+      });
+      mockInferSourceConnection.mockReturnValue('owner/repo');
+      mockGetSmartDefaults.mockResolvedValue({
+        title: 'Release notes for v1.0.0',
+        body: 'Release body',
+        eventType: 'release',
+        changes: [{ releases: { count: 1 } }],
+      });
+
+      await run();
+
+      expect(mockCreateJob).not.toHaveBeenCalled();
+      expect(mockCore.setOutput).toHaveBeenCalledWith('request-json', JSON.stringify({
+        docRequest: {
+          title: 'Release notes for v1.0.0',
+          body: 'Release body',
+          sourceConnection: 'owner/repo',
+          eventType: 'release',
+          changes: [{ releases: { count: 1 } }],
+        },
+      }));
+    });
+  });
+
+  describe('Label Gating and Routing', () => {
+    const labelInputs: ActionInputs = {
+      apiToken: 'test-token',
+      eventType: 'merge',
+      publications: ['changelog'],
+      labels: ['automated'],
+      skipLabels: ['skip-docs'],
+      labelPublications: { 'docs:api': ['api-docs'] },
+    };
+
+    beforeEach(() => {
+      mockGetSmartDefaults.mockResolvedValue({
+        title: 'Documentation for PR #42: Add endpoint',
+        body: 'Adds an endpoint',
+        eventType: 'merge',
+        pullRequestNumber: 42,
+        pullRequestLabels: ['docs:api', 'enhancement'],
+      });
+      mockInferSourceConnection.mockReturnValue('owner/repo');
+      mockCreateJob.mockResolvedValue({ id: 'job-123', orgId: 'org-456', type: 'doc', state: 'requested' });
+      mockConstructJobUrl.mockReturnValue('https://app.doc.holiday/jobs/job-123');
+    });
+
+    it('should skip job creation when the PR has a skip label', async () => {
+      mockParseInputs.mockReturnValue(labelInputs);
+      mockFindSkipLabel.mockReturnValue('skip-docs');
+
+      await run();
+
+      expect(mockFindSkipLabel).toHaveBeenCalledWith(['docs:api', 'enhancement'], ['skip-docs']);
+      expect(mockCreateJob).not.toHaveBeenCalled();
+      expect(mockCore.info).toHaveBeenCalledWith('Skipping job creation: pull request is labeled "skip-docs"');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('skipped', 'true');
+    });
+
+    it('should merge label publications and PR labels into the request', async () => {
+      mockParseInputs.mockReturnValue(labelInputs);
+      mockFindSkipLabel.mockReturnValue(undefined);
+      mockPublicationsForLabels.mockReturnValue(['api-docs', 'changelog']);
+
+      await run();
+
+      expect(mockPublicationsForLabels).toHaveBeenCalledWith(['docs:api', 'enhancement'], { 'docs:api': ['api-docs'] });
+      expect(mockCore.info).toHaveBeenCalledWith('Publications from PR labels: api-docs, changelog');
+      expect(mockCreateJob).toHaveBeenCalledWith('test-token', {
+        docRequest: {
+          title: 'Documentation for PR #42: Add endpoint',
+          body: 'Adds an endpoint',
+          sourceConnection: 'owner/repo',
+          publications: ['changelog', 'api-docs'],
+          labels: ['automated', 'docs:api', 'enhancement'],
+          eventType: 'merge',
+        },
+      }, undefined, { idempotencyKey: undefined });
+    });
+
+    it('should leave publications unset when no label is mapped', async () => {
+      mockParseInputs.mockReturnValue({ apiToken: 'test-token', eventType: 'merge' });
+      mockFindSkipLabel.mockReturnValue(undefined);
+
+      await run();
+
+      const request = mockCreateJob.mock.calls[0][1];
+      expect(request.docRequest.publications).toBeUndefined();
+      expect(request.docRequest.labels).toEqual(['docs:api', 'enhancement']);
+    });
+  });
+
+  describe('PR Enrichment', () => {
+    const enrichInputs: ActionInputs = {
+      apiToken: 'test-token',
+      eventType: 'merge',
+      githubToken: 'gh-token',
+      enrichPr: true,
+      comments: ['Focus on the API'],
+      relevantLinks: ['https://example.com/spec'],
+    };
+
+    beforeEach(() => {
+      mockGetSmartDefaults.mockResolvedValue({
+        title: 'Documentation for PR #42: Add search',
+        body: 'Adds search',
+        eventType: 'merge',
+        pullRequestNumber: 42,
+      });
+      mockInferSourceConnection.mockReturnValue('owner/repo');
+      mockCreateJob.mockResolvedValue({ id: 'job-123', orgId: 'org-456', type: 'doc', state: 'requested' });
+      mockConstructJobUrl.mockReturnValue('https://app.doc.holiday/jobs/job-123');
+    });
+
+    it('should append PR context to comments and relevant links', async () => {
+      mockParseInputs.mockReturnValue(enrichInputs);
+      mockCollectPullRequestContext.mockResolvedValue({
+        relevantLinks: ['https://github.com/owner/repo/pull/42'],
+        comments: ['PR author: @alice'],
+      });
+
+      await run();
+
+      expect(mockCollectPullRequestContext).toHaveBeenCalledWith('gh-token', 42);
+      expect(mockCore.info).toHaveBeenCalledWith('Added 1 comment(s) and 1 link(s) from PR #42');
+      expect(mockCreateJob).toHaveBeenCalledWith('test-token', {
+        docRequest: {
+          title: 'Documentation for PR #42: Add search',
+          body: 'Adds search',
+          sourceConnection: 'owner/repo',
+          comments: ['Focus on the API', 'PR author: @alice'],
+          relevantLinks: ['https://example.com/spec', 'https://github.com/owner/repo/pull/42'],
+          eventType: 'merge',
+        },
+      }, undefined, { idempotencyKey: undefined });
+    });
+
+    it('should create the job without PR context when collection fails', async () => {
+      mockParseInputs.mockReturnValue(enrichInputs);
+      mockCollectPullRequestContext.mockRejectedValue(new Error('Resource not accessible by integration'));
+
+      await run();
+
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'Failed to collect context from PR #42: Resource not accessible by integration'
+      );
+      const request = mockCreateJob.mock.calls[0][1];
+      expect(request.docRequest.comments).toEqual(['Focus on the API']);
+      expect(request.docRequest.relevantLinks).toEqual(['https://example.com/spec']);
+    });
+
+    it('should not collect PR context unless enrich-pr is set', async () => {
+      mockParseInputs.mockReturnValue({ ...enrichInputs, enrichPr: undefined });
+
+      await run();
+
+      expect(mockCollectPullRequestContext).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Body Directives', () => {
+    it('should let body directives override inputs and smart defaults', async () => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        eventType: 'merge',
+        publications: ['changelog'],
+        labels: ['automated'],
+        comments: ['Input comment'],
+        changeset: { commitsCount: 5 },
+      });
+      mockGetSmartDefaults.mockResolvedValue({
+        title: 'Documentation for PR #42: Add endpoint',
+        body: 'Adds an endpoint',
+        eventType: 'merge',
+        changes: [{ commits: { startSha: 'aaa', endSha: 'bbb', includeStartCommit: true } }],
+        pullRequestNumber: 42,
+        directives: {
+          publications: ['api-docs'],
+          labels: ['api'],
+          comments: ['Focus on the new endpoint'],
+          changeset: { tagsStart: 'v1.0.0' },
+        },
+      });
+      mockBuildChanges.mockReturnValue([{ tags: { start: 'v1.0.0' } }]);
+      mockInferSourceConnection.mockReturnValue('owner/repo');
+      mockCreateJob.mockResolvedValue({ id: 'job-123', orgId: 'org-456', type: 'doc', state: 'requested' });
+      mockConstructJobUrl.mockReturnValue('https://app.doc.holiday/jobs/job-123');
+
+      await run();
+
+      expect(mockBuildChanges).toHaveBeenCalledWith({ tagsStart: 'v1.0.0' });
+      expect(mockCore.info).toHaveBeenCalledWith('Using changeset from doc-holiday directive in the body');
+      expect(mockCreateJob).toHaveBeenCalledWith('test-token', {
+        docRequest: {
+          title: 'Documentation for PR #42: Add endpoint',
+          body: 'Adds an endpoint',
+          sourceConnection: 'owner/repo',
+          publications: ['api-docs'],
+          labels: ['api'],
+          comments: ['Focus on the new endpoint'],
+          eventType: 'merge',
+          changes: [{ tags: { start: 'v1.0.0' } }],
+        },
+      }, undefined, { idempotencyKey: undefined });
+      expect(mockWriteJobSummary).toHaveBeenCalledWith(
+        expect.objectContaining({ changesetSource: 'body directive' })
+      );
+    });
+  });
+
+  describe('Path Filters', () => {
+    const mergeInputs: ActionInputs = {
+      apiToken: 'test-token',
+      eventType: 'merge',
+      githubToken: 'gh-token',
+      pathsIgnore: ['.github/**', '__tests__/**'],
+    };
+
+    beforeEach(() => {
+      mockGetSmartDefaults.mockResolvedValue({
+        title: 'Documentation for PR #42: Update CI',
+        body: 'Update CI',
+        eventType: 'merge',
+        changes: [{ commits: { startSha: 'aaa', endSha: 'bbb', includeStartCommit: true } }],
+        pullRequestNumber: 42,
+      });
+      mockInferSourceConnection.mockReturnValue('owner/repo');
+      mockCreateJob.mockResolvedValue({ id: 'job-123', orgId: 'org-456', type: 'doc', state: 'requested' });
+      mockConstructJobUrl.mockReturnValue('https://app.doc.holiday/jobs/job-123');
+    });
+
+    it('should skip job creation when no changed file matches', async () => {
+      mockParseInputs.mockReturnValue(mergeInputs);
+      mockGetChangedFiles.mockResolvedValue(['.github/workflows/ci.yml']);
+      mockFilterPaths.mockReturnValue([]);
+
+      await run();
+
+      expect(mockGetChangedFiles).toHaveBeenCalledWith(
+        'gh-token',
+        [{ commits: { startSha: 'aaa', endSha: 'bbb', includeStartCommit: true } }],
+        42
+      );
+      expect(mockFilterPaths).toHaveBeenCalledWith(['.github/workflows/ci.yml'], undefined, [
+        '.github/**',
+        '__tests__/**',
+      ]);
+      expect(mockCreateJob).not.toHaveBeenCalled();
+      expect(mockCore.info).toHaveBeenCalledWith(
+        'Skipping job creation: none of the 1 changed file(s) match the paths filters'
+      );
+      expect(mockCore.setOutput).toHaveBeenCalledWith('skipped', 'true');
+      expect(mockCore.setFailed).not.toHaveBeenCalled();
+    });
+
+    it('should create the job when a changed file matches', async () => {
+      mockParseInputs.mockReturnValue(mergeInputs);
+      mockGetChangedFiles.mockResolvedValue(['.github/workflows/ci.yml', 'src/api.ts']);
+      mockFilterPaths.mockReturnValue(['src/api.ts']);
+
+      await run();
+
+      expect(mockCore.info).toHaveBeenCalledWith('1 of 2 changed file(s) match the paths filters');
+      expect(mockCreateJob).toHaveBeenCalledTimes(1);
+      expect(mockCore.setOutput).not.toHaveBeenCalledWith('skipped', 'true');
+    });
+
+    it('should ignore the filters when changed files cannot be determined', async () => {
+      mockParseInputs.mockReturnValue(mergeInputs);
+      mockGetChangedFiles.mockResolvedValue(undefined);
+
+      await run();
+
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'Changed files cannot be determined (no commit range, or more changed files than GitHub lists); ignoring path filters'
+      );
+      expect(mockFilterPaths).not.toHaveBeenCalled();
+      expect(mockCreateJob).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ignore the filters when changed files cannot be read', async () => {
+      mockParseInputs.mockReturnValue(mergeInputs);
+      mockGetChangedFiles.mockRejectedValue(new Error('Not Found'));
+
+      await run();
+
+      expect(mockCore.warning).toHaveBeenCalledWith('Failed to read changed files, ignoring path filters: Not Found');
+      expect(mockCreateJob).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not read changed files without filters', async () => {
+      mockParseInputs.mockReturnValue({ ...mergeInputs, pathsIgnore: undefined });
+
+      await run();
+
+      expect(mockGetChangedFiles).not.toHaveBeenCalled();
+      expect(mockCreateJob).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip individual batch jobs without matching files', async () => {
+      mockParseInputs.mockReturnValue({
+        apiToken: 'test-token',
+        configFile: '.github/doc-holiday.yml',
+        githubToken: 'gh-token',
+        paths: ['docs/**'],
+      });
+      mockLoadJobsConfig.mockReturnValue([
+        { name: 'api', title: 'API', body: 'API', changeset: { commitsCount: 5 } },
+        { name: 'guide', title: 'Guide', body: 'Guide', changeset: { commitsCount: 10 } },
+      ]);
+      mockBuildChanges.mockImplementation(changeset => [{ commits: { count: changeset.commitsCount! } }]);
+      mockGetChangedFiles.mockResolvedValue(['src/api.ts']);
+      mockFilterPaths.mockReturnValueOnce([]).mockReturnValueOnce(['docs/guide.md']);
+
+      await run();
+
+      expect(mockGetChangedFiles).toHaveBeenCalledWith('gh-token', [{ commits: { count: 5 } }], undefined);
+      expect(mockCore.info).toHaveBeenCalledWith(
+        'Skipping job "api": none of the 1 changed file(s) match the paths filters'
+      );
+      expect(mockCreateJob).toHaveBeenCalledTimes(1);
+      expect(mockCreateJob).toHaveBeenCalledWith(
+        'test-token',
+        expect.objectContaining({ docRequest: expect.objectContaining({ title: 'Guide' }) }),
+        undefined,
+        { idempotencyKey: undefined }
+      );
+    });
+  });
+
+  describe('Monorepo Packages', () => {
+    const packages = [
+      { name: 'sdk', paths: ['packages/sdk/**'], publications: ['sdk-docs'], labels: ['sdk'] },
+      { name: 'cli', paths: ['packages/cli/**'], sourceConnection: 'my-org/cli' },
+    ];
+    const packageInputs: ActionInputs = {
+      apiToken: 'test-token',
+      eventType: 'merge',
+      githubToken: 'gh-token',
+      packages: 'sdk: ...',
+      publications: ['main-docs'],
+      labels: ['automated'],
+    };
+
+    beforeEach(() => {
+      mockParsePackagesConfig.mockReturnValue(packages);
+      mockGetSmartDefaults.mockResolvedValue({
+        title: 'Documentation for PR #42: Update SDK and CLI',
+        body: 'Updates both',
+        eventType: 'merge',
+        changes: [{ commits: { startSha: 'aaa', endSha: 'bbb', includeStartCommit: true } }],
+        pullRequestNumber: 42,
+      });
+      mockInferSourceConnection.mockReturnValue('owner/repo');
+      mockConstructJobUrl.mockImplementation((id: string) => `https://app.doc.holiday/jobs/${id}`);
+      mockGetChangedFiles.mockResolvedValue(['packages/sdk/index.ts', 'packages/cli/main.ts']);
+    });
+
+    it('should create one job per affected package', async () => {
+      mockParseInputs.mockReturnValue(packageInputs);
+      mockFindAffectedPackages.mockReturnValue(packages);
+      mockCreateJob
+        .mockResolvedValueOnce({ id: 'job-sdk', orgId: 'org-456', type: 'doc', state: 'requested' })
+        .mockResolvedValueOnce({ id: 'job-cli', orgId: 'org-456', type: 'doc', state: 'requested' });
+
+      await run();
+
+      expect(mockParsePackagesConfig).toHaveBeenCalledWith('sdk: ...');
+      expect(mockGetChangedFiles).toHaveBeenCalledWith(
+        'gh-token',
+        [{ commits: { startSha: 'aaa', endSha: 'bbb', includeStartCommit: true } }],
+        42
+      );
+      expect(mockFindAffectedPackages).toHaveBeenCalledWith(packages, ['packages/sdk/index.ts', 'packages/cli/main.ts']);
+      expect(mockCore.info).toHaveBeenCalledWith('Affected packages: sdk, cli');
+      expect(mockCreateJob).toHaveBeenCalledTimes(2);
+      expect(mockCreateJob).toHaveBeenNthCalledWith(1, 'test-token', {
+        docRequest: {
+          title: 'Documentation for PR #42: Update SDK and CLI (sdk)',
+          body: 'Updates both',
+          sourceConnection: 'owner/repo',
+          publications: ['sdk-docs'],
+          labels: ['automated', 'sdk'],
+          eventType: 'merge',
+          changes: [{ commits: { startSha: 'aaa', endSha: 'bbb', includeStartCommit: true } }],
+        },
+      }, undefined, { idempotencyKey: undefined });
+      expect(mockCreateJob).toHaveBeenNthCalledWith(2, 'test-token', {
+        docRequest: {
+          title: 'Documentation for PR #42: Update SDK and CLI (cli)',
+          body: 'Updates both',
+          sourceConnection: 'my-org/cli',
+          publications: ['main-docs'],
+          labels: ['automated'],
+          eventType: 'merge',
+          changes: [{ commits: { startSha: 'aaa', endSha: 'bbb', includeStartCommit: true } }],
+        },
+      }, undefined, { idempotencyKey: undefined });
+      expect(mockCore.setOutput).toHaveBeenCalledWith('jobs', JSON.stringify([
+        { name: 'sdk', id: 'job-sdk', state: 'requested', url: 'https://app.doc.holiday/jobs/job-sdk' },
+        { name: 'cli', id: 'job-cli', state: 'requested', url: 'https://app.doc.holiday/jobs/job-cli' },
+      ]));
+      expect(mockWriteBatchSummary).toHaveBeenCalledTimes(1);
+      expect(mockCore.setFailed).not.toHaveBeenCalled();
+    });
+
+    it('should skip job creation when no package is affected', async () => {
+      mockParseInputs.mockReturnValue(packageInputs);
+      mockFindAffectedPackages.mockReturnValue([]);
+
+      await run();
+
+      expect(mockCreateJob).not.toHaveBeenCalled();
+      expect(mockCore.info).toHaveBeenCalledWith(
+        'Skipping job creation: none of the 2 changed file(s) belong to a configured package'
+      );
+      expect(mockCore.setOutput).toHaveBeenCalledWith('skipped', 'true');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('jobs', '[]');
+    });
+
+    it('should report every package request in dry-run mode', async () => {
+      mockParseInputs.mockReturnValue({ ...packageInputs, dryRun: true });
+      mockFindAffectedPackages.mockReturnValue([packages[0]]);
+
+      await run();
+
+      expect(mockCreateJob).not.toHaveBeenCalled();
+      expect(mockWriteDryRunSummary).toHaveBeenCalledWith([
+        expect.objectContaining({
+          docRequest: expect.objectContaining({ title: 'Documentation for PR #42: Update SDK and CLI (sdk)' }),
+        }),
+      ]);
+    });
+
+    it('should fail when changed files cannot be determined', async () => {
+      mockParseInputs.mockReturnValue(packageInputs);
+      mockGetChangedFiles.mockResolvedValue(undefined);
+
+      await run();
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        'packages requires the changed files, which cannot be determined (no commit range, or more changed files than GitHub lists)'
+      );
+    });
+  });
+
+  describe('Batch Mode', () => {
+    const mockInputs: ActionInputs = {
+      apiToken: 'test-token',
+      configFile: '.github/doc-holiday.yml',
+      publications: ['default-pub'],
+      labels: ['batch'],
+    };
+
+    beforeEach(() => {
+      mockInferSourceConnection.mockReturnValue('owner/repo');
+      mockConstructJobUrl.mockImplementation((id: string) => `https://app.doc.holiday/jobs/${id}`);
+      mockLoadJobsConfig.mockReturnValue([
+        {
+          name: 'api-reference',
+          title: 'API reference update',
+          body: 'Document API changes',
+          publications: ['api-docs'],
+          changeset: { commitsCount: 20 },
+        },
+        {
+          name: 'user-guide',
+          title: 'User guide update',
+          body: 'Update the guides',
+          sourceConnection: 'my-org/docs',
+        },
+      ]);
+    });
+
+    it('should create every configured job and output a JSON array', async () => {
+      mockParseInputs.mockReturnValue(mockInputs);
+      mockBuildChanges.mockReturnValue([{ commits: { count: 20 } }]);
+      mockCreateJob
+        .mockResolvedValueOnce({ id: 'job-1', orgId: 'org-456', type: 'doc', state: 'requested' })
+        .mockResolvedValueOnce({ id: 'job-2', orgId: 'org-456', type: 'doc', state: 'requested' });
+
+      await run();
+
+      expect(mockLoadJobsConfig).toHaveBeenCalledWith('.github/doc-holiday.yml');
+      expect(mockGetSmartDefaults).not.toHaveBeenCalled();
+      expect(mockCreateJob).toHaveBeenCalledTimes(2);
+      expect(mockCreateJob).toHaveBeenNthCalledWith(1, 'test-token', {
+        docRequest: {
+          title: 'API reference update',
+          body: 'Document API changes',
+          sourceConnection: 'owner/repo',
+          publications: ['api-docs'],
+          labels: ['batch'],
+          changes: [{ commits: { count: 20 } }],
+        },
+      }, undefined, { idempotencyKey: undefined });
+      expect(mockCreateJob).toHaveBeenNthCalledWith(2, 'test-token', {
+        docRequest: {
+          title: 'User guide update',
+          body: 'Update the guides',
+          sourceConnection: 'my-org/docs',
+          publications: ['default-pub'],
+          labels: ['batch'],
+        },
+      }, undefined, { idempotencyKey: undefined });
+
+      expect(mockCore.setOutput).toHaveBeenCalledWith('jobs', JSON.stringify([
+        { name: 'api-reference', id: 'job-1', state: 'requested', url: 'https://app.doc.holiday/jobs/job-1' },
+        { name: 'user-guide', id: 'job-2', state: 'requested', url: 'https://app.doc.holiday/jobs/job-2' },
+      ]));
+      expect(mockCore.setOutput).not.toHaveBeenCalledWith('job-id', expect.anything());
+      expect(mockWriteBatchSummary).toHaveBeenCalledWith([
+        { name: 'api-reference', id: 'job-1', state: 'requested', url: 'https://app.doc.holiday/jobs/job-1' },
+        { name: 'user-guide', id: 'job-2', state: 'requested', url: 'https://app.doc.holiday/jobs/job-2' },
+      ]);
+      expect(mockCore.setFailed).not.toHaveBeenCalled();
+    });
+
+    it('should continue after a failed job and report failures', async () => {
+      mockParseInputs.mockReturnValue(mockInputs);
+      mockBuildChanges.mockReturnValue([{ commits: { count: 20 } }]);
+      mockCreateJob
+        .mockRejectedValueOnce(new Error('API request failed'))
+        .mockResolvedValueOnce({ id: 'job-2', orgId: 'org-456', type: 'doc', state: 'requested' });
+
+      await run();
+
+      expect(mockCreateJob).toHaveBeenCalledTimes(2);
+      expect(mockCore.setOutput).toHaveBeenCalledWith('jobs', JSON.stringify([
+        { name: 'user-guide', id: 'job-2', state: 'requested', url: 'https://app.doc.holiday/jobs/job-2' },
+      ]));
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        '1 of 2 jobs failed: api-reference: API request failed'
+      );
+    });
+
+    it('should still output a created job when waiting for it fails', async () => {
+      mockParseInputs.mockReturnValue({ ...mockInputs, waitForCompletion: true });
+      mockBuildChanges.mockReturnValue([{ commits: { count: 20 } }]);
+      mockCreateJob
+        .mockResolvedValueOnce({ id: 'job-1', orgId: 'org-456', type: 'doc', state: 'requested' })
+        .mockResolvedValueOnce({ id: 'job-2', orgId: 'org-456', type: 'doc', state: 'requested' });
+      mockWaitForJob
+        .mockRejectedValueOnce(new Error('Timed out waiting for job job-1'))
+        .mockResolvedValueOnce({ id: 'job-2', orgId: 'org-456', type: 'doc', state: 'done' });
+
+      await run();
+
+      expect(mockCore.setOutput).toHaveBeenCalledWith('jobs', JSON.stringify([
+        { name: 'api-reference', id: 'job-1', state: 'requested', url: 'https://app.doc.holiday/jobs/job-1' },
+        { name: 'user-guide', id: 'job-2', state: 'done', url: 'https://app.doc.holiday/jobs/job-2' },
+      ]));
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        '1 of 2 jobs failed: api-reference: Timed out waiting for job job-1'
+      );
+    });
+
+    it('should keep the error code when every job fails the same way', async () => {
+      mockParseInputs.mockReturnValue(mockInputs);
+      mockBuildChanges.mockReturnValue([{ commits: { count: 20 } }]);
+      mockCreateJob.mockRejectedValue(new AuthError('Authentication failed.', { status: 401 }));
+
+      await run();
+
+      expect(mockCore.setOutput).toHaveBeenCalledWith('error-code', 'auth');
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        '2 of 2 jobs failed: api-reference: Authentication failed.; user-guide: Authentication failed.'
+      );
+    });
+
+    it('should report an unknown error code when jobs fail in different ways', async () => {
+      mockParseInputs.mockReturnValue(mockInputs);
+      mockBuildChanges.mockReturnValue([{ commits: { count: 20 } }]);
+      mockCreateJob
+        .mockRejectedValueOnce(new RateLimitError('Rate limited (429).', { status: 429 }))
+        .mockRejectedValueOnce(new Error('API request failed'));
+
+      await run();
+
+      expect(mockCore.setOutput).toHaveBeenCalledWith('error-code', 'unknown');
+    });
+
+    it('should output all requests without creating jobs in dry-run mode', async () => {
+      mockParseInputs.mockReturnValue({ ...mockInputs, dryRun: true });
+      mockBuildChanges.mockReturnValue([{ commits: { count: 20 } }]);
+
+      await run();
+
+      expect(mockCreateJob).not.toHaveBeenCalled();
+      expect(mockCore.setOutput).toHaveBeenCalledWith('jobs', '[]');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('request-json', expect.stringContaining('"title":"User guide update"'));
+      expect(mockWriteDryRunSummary).toHaveBeenCalledWith([
+        expect.objectContaining({ docRequest: expect.objectContaining({ title: 'API reference update' }) }),
+        expect.objectContaining({ docRequest: expect.objectContaining({ title: 'User guide update' }) }),
+      ]);
+    });
+
+    it('should fail when loading the config file fails', async () => {
+      mockParseInputs.mockReturnValue(mockInputs);
+      mockLoadJobsConfig.mockImplementation(() => {
+        throw new Error('Config file not found: .github/doc-holiday.yml');
+      });
+
+      await run();
+
+      expect(mockCreateJob).not.toHaveBeenCalled();
+      expect(mockCore.setFailed).toHaveBeenCalledWith('Config file not found: .github/doc-holiday.yml');
+    });
+  });
+
   describe('Logging', () => {
     it('should log progress throughout execution', async () => {
       // Arrange
@@ -684,7 +2330,7 @@ describe('index.ts - main orchestration', () => {
       };
 
       mockParseInputs.mockReturnValue(mockInputs);
-      mockGetSmartDefaults.mockReturnValue(mockSmartDefaults);
+      mockGetSmartDefaults.mockResolvedValue(mockSmartDefaults);
       mockInferSourceConnection.mockReturnValue('owner/repo');
       mockCreateJob.mockResolvedValue(mockResponse);
       mockConstructJobUrl.mockReturnValue('https://app.doc.holiday/jobs/job-log-456');
@@ -54,6 +54,28 @@ describe('parseInputs', () => {
       expect(result.eventType).toBe('merge');
     });
 
+    it('should parse event-type as push', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'push';
+        return '';
+      });
+
+      const result = parseInputs();
+      expect(result.eventType).toBe('push');
+    });
+
+    it('should parse event-type as tag', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'tag';
+        return '';
+      });
+
+      const result = parseInputs();
+      expect(result.eventType).toBe('tag');
+    });
+
     it('should parse event-type as custom', () => {
       mockGetInput.mockImplementation((name: string) => {
         if (name === 'api-token') return 'test-token';
@@ -113,6 +135,76 @@ describe('parseInputs', () => {
       expect(() => parseInputs()).toThrow('title is required when event-type is not set or is "custom"');
     });
 
+    it('should not require title or body when config-file is set', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'config-file') return '.github/doc-holiday.yml';
+        return '';
+      });
+
+      const result = parseInputs();
+      expect(result.configFile).toBe('.github/doc-holiday.yml');
+      expect(result.title).toBeUndefined();
+    });
+
+    it('should parse dry-run', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'dry-run') return 'true';
+        return '';
+      });
+
+      const result = parseInputs();
+      expect(result.dryRun).toBe(true);
+    });
+
+    it('should parse idempotency-key', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'idempotency-key') return 'release-v1.0.0';
+        return '';
+      });
+
+      const result = parseInputs();
+      expect(result.idempotencyKey).toBe('release-v1.0.0');
+    });
+
+    it('should parse retry policy inputs', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'max-retries') return '5';
+        if (name === 'request-timeout') return '10';
+        return '';
+      });
+
+      const result = parseInputs();
+      expect(result.maxRetries).toBe(5);
+      expect(result.requestTimeout).toBe(10);
+    });
+
+    it('should reject invalid retry policy inputs', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'max-retries') return '-1';
+        return '';
+      });
+
+      expect(() => parseInputs()).toThrow('max-retries must be a non-negative integer, got "-1"');
+
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'request-timeout') return '0';
+        return '';
+      });
+
+      expect(() => parseInputs()).toThrow('request-timeout must be a positive number of seconds, got "0"');
+    });
+
     it('should require body when event-type is not set', () => {
       mockGetInput.mockImplementation((name: string) => {
         if (name === 'api-token') return 'test-token';
@@ -552,6 +644,141 @@ describe('parseInputs', () => {
     });
   });
 
+  describe('relative time ranges', () => {
+    beforeEach(() => {
+      jest.useFakeTimers().setSystemTime(new Date('2025-06-18T15:30:00Z'));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should resolve a relative start and default the end to now', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'time-range-start') return '7d';
+        return '';
+      });
+
+      const result = parseInputs();
+      expect(result.changeset?.timeRangeStart).toBe('2025-06-11T15:30:00Z');
+      expect(result.changeset?.timeRangeEnd).toBe('2025-06-18T15:30:00Z');
+    });
+
+    it('should normalize absolute timestamps to UTC', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'time-range-start') return '2025-01-01';
+        if (name === 'time-range-end') return '2025-01-31T23:59:59+01:00';
+        return '';
+      });
+
+      const result = parseInputs();
+      expect(result.changeset?.timeRangeStart).toBe('2025-01-01T00:00:00Z');
+      expect(result.changeset?.timeRangeEnd).toBe('2025-01-31T22:59:59Z');
+    });
+
+    it('should reject invalid timestamps', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'time-range-start') return 'last tuesday';
+        return '';
+      });
+
+      expect(() => parseInputs()).toThrow('time-range-start must be an ISO 8601 timestamp or a relative expression');
+    });
+
+    it('should require github-token for since-last-release', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'time-range-start') return 'since-last-release';
+        return '';
+      });
+
+      expect(() => parseInputs()).toThrow('github-token is required when time-range-start is since-last-release');
+    });
+
+    it('should keep since-last-release for resolution at run time', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'github-token') return 'gh-token';
+        if (name === 'time-range-start') return 'since-last-release';
+        return '';
+      });
+
+      const result = parseInputs();
+      expect(result.changeset?.timeRangeStart).toBe('since-last-release');
+      expect(result.changeset?.timeRangeEnd).toBe('2025-06-18T15:30:00Z');
+    });
+  });
+
+  describe('range shorthand', () => {
+    it('should parse commits-range for resolution at run time', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'commits-range') return 'main...HEAD~2';
+        return '';
+      });
+
+      const result = parseInputs();
+      expect(result.changeset?.commitsRange).toEqual({ start: 'main', end: 'HEAD~2', symmetric: true });
+    });
+
+    it('should parse tags-range into tag names', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'tags-range') return 'v1.0.0..v1.1.0';
+        return '';
+      });
+
+      const result = parseInputs();
+      expect(result.changeset).toMatchObject({ tagsStart: 'v1.0.0', tagsEnd: 'v1.1.0' });
+    });
+
+    it('should reject commits-range together with commits-start-sha', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'commits-range') return 'abc123..def456';
+        if (name === 'commits-start-sha') return 'abc123';
+        return '';
+      });
+
+      expect(() => parseInputs()).toThrow('commits-range cannot be combined with commits-start-sha or commits-end-sha');
+    });
+
+    it('should reject tags-range together with tags-start', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'tags-range') return 'v1.0.0..v1.1.0';
+        if (name === 'tags-start') return 'v1.0.0';
+        return '';
+      });
+
+      expect(() => parseInputs()).toThrow('tags-range cannot be combined with tags-start or tags-end');
+    });
+
+    it('should count the ranges in mutual exclusivity checks', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'commits-range') return 'HEAD~3';
+        if (name === 'tags-range') return 'v1.0.0..';
+        return '';
+      });
+
+      expect(() => parseInputs()).toThrow('Multiple changeset types specified: commits-range, tags.');
+    });
+  });
+
   describe('changeset mutual exclusivity validation', () => {
     it('should throw error when releases-count and commits-count are both specified', () => {
       mockGetInput.mockImplementation((name: string) => {
@@ -628,6 +855,478 @@ describe('parseInputs', () => {
     });
   });
 
+  describe('combining changesets', () => {
+    it('should allow several changeset types with allow-multiple-changesets', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'tags-start') return 'v1.0.0';
+        if (name === 'tags-end') return 'v1.1.0';
+        if (name === 'commits-shas') return 'abc123,def456';
+        if (name === 'allow-multiple-changesets') return 'true';
+        return '';
+      });
+
+      const result = parseInputs();
+
+      expect(result.changeset).toMatchObject({
+        tagsStart: 'v1.0.0',
+        tagsEnd: 'v1.1.0',
+        commitsShas: ['abc123', 'def456'],
+      });
+    });
+
+    it('should parse a YAML changes list', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'changes') return '- tags: { start: v1.0.0, end: v1.1.0 }\n- commits: { shas: [abc123, def456] }\n';
+        return '';
+      });
+
+      const result = parseInputs();
+
+      expect(result.changeset?.changes).toEqual([
+        { tags: { start: 'v1.0.0', end: 'v1.1.0' } },
+        { commits: { shas: ['abc123', 'def456'] } },
+      ]);
+    });
+
+    it('should combine a JSON changes list with another changeset type', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'tags-start') return 'v1.0.0';
+        if (name === 'changes') return '[{"commits": {"shas": ["abc123"]}}]';
+        return '';
+      });
+
+      const result = parseInputs();
+
+      expect(result.changeset).toMatchObject({
+        tagsStart: 'v1.0.0',
+        changes: [{ commits: { shas: ['abc123'] } }],
+      });
+    });
+
+    it('should reject a changes value that is not a list', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'changes') return 'releases: { count: 1 }';
+        return '';
+      });
+
+      expect(() => parseInputs()).toThrow('changes must be a JSON or YAML list of change objects');
+    });
+
+    it('should reject invalid change objects', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'changes') return '[{"commits": {"sha": "abc123"}}]';
+        return '';
+      });
+
+      expect(() => parseInputs()).toThrow(
+        'changes: Invalid change at index 0: commits must have count, shas, startSha'
+      );
+    });
+
+    it('should suggest how to combine changeset types', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'releases-count') return '2';
+        if (name === 'commits-count') return '10';
+        return '';
+      });
+
+      expect(() => parseInputs()).toThrow(
+        'Set allow-multiple-changesets to true or list them in changes to combine them.'
+      );
+    });
+  });
+
+  describe('base URL parsing', () => {
+    afterEach(() => {
+      delete process.env.DOC_HOLIDAY_API_URL;
+      delete process.env.DOC_HOLIDAY_APP_URL;
+    });
+
+    it('should leave base URLs undefined when not provided', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        return '';
+      });
+
+      const result = parseInputs();
+      expect(result.apiUrl).toBeUndefined();
+      expect(result.appUrl).toBeUndefined();
+    });
+
+    it('should parse api-url and app-url and strip trailing slashes', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'api-url') return 'https://api.staging.doc.holiday/';
+        if (name === 'app-url') return 'http://localhost:3000';
+        return '';
+      });
+
+      const result = parseInputs();
+      expect(result.apiUrl).toBe('https://api.staging.doc.holiday');
+      expect(result.appUrl).toBe('http://localhost:3000');
+    });
+
+    it('should fall back to environment variables', () => {
+      process.env.DOC_HOLIDAY_API_URL = 'http://localhost:8080';
+      process.env.DOC_HOLIDAY_APP_URL = 'http://localhost:3000';
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        return '';
+      });
+
+      const result = parseInputs();
+      expect(result.apiUrl).toBe('http://localhost:8080');
+      expect(result.appUrl).toBe('http://localhost:3000');
+    });
+
+    it('should prefer inputs over environment variables', () => {
+      process.env.DOC_HOLIDAY_API_URL = 'http://localhost:8080';
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'api-url') return 'https://api.staging.doc.holiday';
+        return '';
+      });
+
+      const result = parseInputs();
+      expect(result.apiUrl).toBe('https://api.staging.doc.holiday');
+    });
+
+    it('should reject malformed URLs', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'api-url') return 'api.staging.doc.holiday';
+        return '';
+      });
+
+      expect(() => parseInputs()).toThrow('api-url must be a valid URL, got "api.staging.doc.holiday"');
+    });
+
+    it('should reject non-http protocols', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'app-url') return 'ftp://app.doc.holiday';
+        return '';
+      });
+
+      expect(() => parseInputs()).toThrow('app-url must use http or https, got "ftp://app.doc.holiday"');
+    });
+
+    it('should reject URLs with a query string', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'api-url') return 'https://api.doc.holiday?tenant=1';
+        return '';
+      });
+
+      expect(() => parseInputs()).toThrow('api-url must not include a query string or fragment');
+    });
+  });
+
+  describe('comment-on-pr parsing', () => {
+    it('should parse comment-on-pr with github-token', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'merge';
+        if (name === 'comment-on-pr') return 'true';
+        if (name === 'github-token') return 'gh-token';
+        return '';
+      });
+
+      const result = parseInputs();
+      expect(result.commentOnPr).toBe(true);
+      expect(result.githubToken).toBe('gh-token');
+    });
+
+    it('should require github-token when comment-on-pr is true', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'merge';
+        if (name === 'comment-on-pr') return 'true';
+        return '';
+      });
+
+      expect(() => parseInputs()).toThrow('github-token is required when comment-on-pr is true');
+    });
+  });
+
+  describe('label gating parsing', () => {
+    it('should parse skip-labels and label-publications', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'merge';
+        if (name === 'skip-labels') return 'skip-docs, no-docs';
+        if (name === 'label-publications') return 'docs:api=api-docs\n docs:guide = user-guide, tutorials \ndocs:api=reference\n';
+        return '';
+      });
+
+      const result = parseInputs();
+      expect(result.skipLabels).toEqual(['skip-docs', 'no-docs']);
+      expect(result.labelPublications).toEqual({
+        'docs:api': ['api-docs', 'reference'],
+        'docs:guide': ['user-guide', 'tutorials'],
+      });
+    });
+
+    it('should leave label inputs unset when empty', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'merge';
+        return '';
+      });
+
+      const result = parseInputs();
+      expect(result.skipLabels).toBeUndefined();
+      expect(result.labelPublications).toBeUndefined();
+    });
+
+    it.each(['docs:api', '=api-docs', 'docs:api='])('should reject malformed mapping "%s"', entry => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'merge';
+        if (name === 'label-publications') return entry;
+        return '';
+      });
+
+      expect(() => parseInputs()).toThrow(
+        `label-publications entries must look like "label=publication[,publication]", got "${entry}"`
+      );
+    });
+  });
+
+  describe('packages parsing', () => {
+    it('should require github-token when packages is set', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'merge';
+        if (name === 'packages') return 'sdk:\n  paths: packages/sdk/**';
+        return '';
+      });
+
+      expect(() => parseInputs()).toThrow('github-token is required when packages is set');
+    });
+  });
+
+  describe('paths filter parsing', () => {
+    it('should parse newline-separated paths and paths-ignore', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'merge';
+        if (name === 'github-token') return 'gh-token';
+        if (name === 'paths') return 'src/**\n  docs/{guides,api}/**\n';
+        if (name === 'paths-ignore') return '**/*.test.ts';
+        return '';
+      });
+
+      const result = parseInputs();
+      expect(result.paths).toEqual(['src/**', 'docs/{guides,api}/**']);
+      expect(result.pathsIgnore).toEqual(['**/*.test.ts']);
+    });
+
+    it('should require github-token when paths is set', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'merge';
+        if (name === 'paths-ignore') return '.github/**';
+        return '';
+      });
+
+      expect(() => parseInputs()).toThrow('github-token is required when paths or paths-ignore is set');
+    });
+  });
+
+  describe('pull-request preview parsing', () => {
+    it('should require github-token for event-type pull-request', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'pull-request';
+        return '';
+      });
+
+      expect(() => parseInputs()).toThrow(
+        'github-token is required for event-type: pull-request to track preview jobs'
+      );
+    });
+  });
+
+  describe('enrich-pr parsing', () => {
+    it('should parse enrich-pr with github-token', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'merge';
+        if (name === 'enrich-pr') return 'true';
+        if (name === 'github-token') return 'gh-token';
+        return '';
+      });
+
+      expect(parseInputs().enrichPr).toBe(true);
+    });
+
+    it('should require github-token when enrich-pr is true', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'merge';
+        if (name === 'enrich-pr') return 'true';
+        return '';
+      });
+
+      expect(() => parseInputs()).toThrow('github-token is required when enrich-pr is true');
+    });
+  });
+
+  describe('update-release parsing', () => {
+    it('should parse update-release and imply waiting for completion', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'update-release') return 'section';
+        if (name === 'github-token') return 'gh-token';
+        return '';
+      });
+
+      const result = parseInputs();
+      expect(result.updateRelease).toBe('section');
+      expect(result.waitForCompletion).toBe(true);
+      expect(result.pollInterval).toBe(30);
+    });
+
+    it('should treat "false" as disabled', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'update-release') return 'false';
+        return '';
+      });
+
+      const result = parseInputs();
+      expect(result.updateRelease).toBeUndefined();
+      expect(result.waitForCompletion).toBeUndefined();
+    });
+
+    it('should reject unknown modes', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'update-release') return 'prepend';
+        if (name === 'github-token') return 'gh-token';
+        return '';
+      });
+
+      expect(() => parseInputs()).toThrow('update-release must be one of replace, append, section, got "prepend"');
+    });
+
+    it('should require release event type', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'merge';
+        if (name === 'update-release') return 'append';
+        if (name === 'github-token') return 'gh-token';
+        return '';
+      });
+
+      expect(() => parseInputs()).toThrow('update-release is only supported with event-type: release');
+    });
+
+    it('should require github-token', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'update-release') return 'append';
+        return '';
+      });
+
+      expect(() => parseInputs()).toThrow('github-token is required when update-release is set');
+    });
+  });
+
+  describe('wait-for-completion parsing', () => {
+    it('should leave polling options undefined when not waiting', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'wait-for-completion') return 'false';
+        if (name === 'poll-interval') return '10';
+        return '';
+      });
+
+      const result = parseInputs();
+      expect(result.waitForCompletion).toBe(false);
+      expect(result.pollInterval).toBeUndefined();
+      expect(result.timeout).toBeUndefined();
+    });
+
+    it('should apply default poll interval and timeout', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'wait-for-completion') return 'true';
+        return '';
+      });
+
+      const result = parseInputs();
+      expect(result.waitForCompletion).toBe(true);
+      expect(result.pollInterval).toBe(30);
+      expect(result.timeout).toBe(1800);
+    });
+
+    it('should parse custom poll interval and timeout', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'wait-for-completion') return 'true';
+        if (name === 'poll-interval') return '5';
+        if (name === 'timeout') return '600';
+        return '';
+      });
+
+      const result = parseInputs();
+      expect(result.pollInterval).toBe(5);
+      expect(result.timeout).toBe(600);
+    });
+
+    it('should reject a non-positive poll interval', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'wait-for-completion') return 'true';
+        if (name === 'poll-interval') return '0';
+        return '';
+      });
+
+      expect(() => parseInputs()).toThrow('poll-interval must be a positive number of seconds, got "0"');
+    });
+
+    it('should reject a non-numeric timeout', () => {
+      mockGetInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-token';
+        if (name === 'event-type') return 'release';
+        if (name === 'wait-for-completion') return 'true';
+        if (name === 'timeout') return 'forever';
+        return '';
+      });
+
+      expect(() => parseInputs()).toThrow('timeout must be a positive number of seconds, got "forever"');
+    });
+  });
+
   describe('complete integration scenarios', () => {
     it('should parse a complete release mode configuration', () => {
       mockGetInput.mockImplementation((name: string) => {
@@ -0,0 +1,40 @@
+// __tests__/labels.test.ts
+import { findSkipLabel, publicationsForLabels } from '../src/labels';
+
+describe('labels', () => {
+  describe('findSkipLabel', () => {
+    it('should return the first skip label on the pull request', () => {
+      expect(findSkipLabel(['bug', 'skip-docs'], ['skip-docs', 'no-docs'])).toBe('skip-docs');
+    });
+
+    it('should match labels case-insensitively', () => {
+      expect(findSkipLabel(['Skip-Docs'], ['skip-docs'])).toBe('Skip-Docs');
+    });
+
+    it('should return undefined without a skip label', () => {
+      expect(findSkipLabel(['bug'], ['skip-docs'])).toBeUndefined();
+      expect(findSkipLabel(['skip-docs'])).toBeUndefined();
+    });
+  });
+
+  describe('publicationsForLabels', () => {
+    const mapping = {
+      'docs:api': ['api-docs'],
+      'docs:guide': ['user-guide', 'api-docs'],
+      'docs:blog': ['blog'],
+    };
+
+    it('should collect the publications of every mapped label without duplicates', () => {
+      expect(publicationsForLabels(['docs:guide', 'bug', 'docs:api'], mapping)).toEqual(['api-docs', 'user-guide']);
+    });
+
+    it('should match labels case-insensitively', () => {
+      expect(publicationsForLabels(['Docs:Blog'], mapping)).toEqual(['blog']);
+    });
+
+    it('should return an empty list without matches or mapping', () => {
+      expect(publicationsForLabels(['bug'], mapping)).toEqual([]);
+      expect(publicationsForLabels(['docs:api'])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+// __tests__/packages.test.ts
+import { findAffectedPackages, parsePackagesConfig } from '../src/packages';
+
+describe('packages', () => {
+  describe('parsePackagesConfig', () => {
+    it('should parse a YAML mapping of packages', () => {
+      const packages = parsePackagesConfig(
+        [
+          'sdk:',
+          '  paths: packages/sdk/**',
+          '  publications: sdk-docs, api-reference',
+          '  source-connection: my-org/sdk',
+          '  labels: [sdk]',
+          'cli:',
+          '  paths:',
+          '    - packages/cli/**',
+          '    - tools/cli/**',
+          '  publications: [cli-docs]',
+        ].join('\n')
+      );
+
+      expect(packages).toEqual([
+        {
+          name: 'sdk',
+          paths: ['packages/sdk/**'],
+          publications: ['sdk-docs', 'api-reference'],
+          sourceConnection: 'my-org/sdk',
+          labels: ['sdk'],
+        },
+        {
+          name: 'cli',
+          paths: ['packages/cli/**', 'tools/cli/**'],
+          publications: ['cli-docs'],
+          sourceConnection: undefined,
+          labels: undefined,
+        },
+      ]);
+    });
+
+    it('should parse JSON', () => {
+      expect(parsePackagesConfig('{"web": {"paths": ["apps/web/**"]}}')).toEqual([
+        { name: 'web', paths: ['apps/web/**'], publications: undefined, sourceConnection: undefined, labels: undefined },
+      ]);
+    });
+
+    it('should reject values that are not a mapping', () => {
+      expect(() => parsePackagesConfig('- packages/sdk/**')).toThrow(
+        'packages must be a mapping of package names to their paths and publications'
+      );
+    });
+
+    it('should reject invalid YAML', () => {
+      expect(() => parsePackagesConfig('sdk: [unclosed')).toThrow('Failed to parse packages:');
+    });
+
+    it('should reject packages without paths', () => {
+      expect(() => parsePackagesConfig('sdk:\n  publications: sdk-docs')).toThrow('Package "sdk" is missing paths');
+    });
+
+    it('should reject unknown fields', () => {
+      expect(() => parsePackagesConfig('sdk:\n  paths: packages/sdk/**\n  title: SDK')).toThrow(
+        'Package "sdk" has unknown fields: title'
+      );
+    });
+  });
+
+  describe('findAffectedPackages', () => {
+    const packages = [
+      { name: 'sdk', paths: ['packages/sdk/**'] },
+      { name: 'cli', paths: ['packages/cli/**'] },
+      { name: 'web', paths: ['apps/web/**'] },
+    ];
+
+    it('should return the packages owning a changed file', () => {
+      const affected = findAffectedPackages(packages, ['packages/sdk/src/index.ts', 'apps/web/page.tsx', 'README.md']);
+      expect(affected.map(pkg => pkg.name)).toEqual(['sdk', 'web']);
+    });
+
+    it('should return no packages when only shared files changed', () => {
+      expect(findAffectedPackages(packages, ['README.md'])).toEqual([]);
+    });
+  });
+});
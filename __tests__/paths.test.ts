@@ -0,0 +1,224 @@
+// __tests__/paths.test.ts
+import * as github from '@actions/github';
+import { filterPaths, getChangedFiles } from '../src/paths';
+
+const mockListFiles = jest.fn();
+const mockListReleases = jest.fn();
+const mockListCommits = jest.fn();
+const mockGetCommit = jest.fn();
+const mockCompare = jest.fn();
+const mockPaginate = jest.fn();
+
+// Mock @actions/github
+jest.mock('@actions/github', () => ({
+  context: {
+    payload: {},
+    sha: 'head-sha',
+    repo: {
+      owner: 'test-owner',
+      repo: 'test-repo',
+    },
+  },
+  getOctokit: jest.fn(),
+}));
+
+const mockGetOctokit = github.getOctokit as jest.MockedFunction<typeof github.getOctokit>;
+
+const fileList = (...names: string[]) => names.map(filename => ({ filename }));
+
+// Serve listCommits pages through paginate, honoring the map function's done()
+const mockCommitPages = (...pages: Array<Array<{ sha: string; parents: Array<{ sha: string }> }>>) => {
+  mockPaginate.mockImplementation(async (_route: unknown, _params: unknown, mapFn: Function) => {
+    const items: unknown[] = [];
+    let stop = false;
+    for (const data of pages) {
+      items.push(...mapFn({ data }, () => { stop = true; }));
+      if (stop) {
+        break;
+      }
+    }
+    return items;
+  });
+};
+
+const commitChain = (count: number) =>
+  Array.from({ length: count }, (_, i) => ({ sha: `c${count - i}`, parents: [{ sha: `c${count - i - 1}` }] }));
+
+describe('paths', () => {
+  describe('filterPaths', () => {
+    const files = ['src/api.ts', 'docs/guide.md', '.github/workflows/ci.yml', '__tests__/api.test.ts'];
+
+    it('should keep every file without patterns', () => {
+      expect(filterPaths(files)).toEqual(files);
+    });
+
+    it('should keep files matching paths', () => {
+      expect(filterPaths(files, ['src/**', 'docs/*.md'])).toEqual(['src/api.ts', 'docs/guide.md']);
+    });
+
+    it('should drop files matching paths-ignore, including dotfiles', () => {
+      expect(filterPaths(files, undefined, ['.github/**', '__tests__/**'])).toEqual([
+        'src/api.ts',
+        'docs/guide.md',
+      ]);
+    });
+
+    it('should apply paths-ignore after paths', () => {
+      expect(filterPaths(files, ['**/*.ts'], ['**/*.test.ts'])).toEqual(['src/api.ts']);
+    });
+  });
+
+  describe('getChangedFiles', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockGetOctokit.mockReturnValue({
+        paginate: mockPaginate,
+        rest: {
+          pulls: { listFiles: mockListFiles },
+          repos: {
+            listReleases: mockListReleases,
+            listCommits: mockListCommits,
+            getCommit: mockGetCommit,
+            compareCommitsWithBasehead: mockCompare,
+          },
+        },
+      } as any);
+      mockCompare.mockResolvedValue({ data: { files: fileList('src/a.ts', 'src/b.ts') } });
+    });
+
+    it('should list pull request files when a PR number is given', async () => {
+      mockPaginate.mockResolvedValue(fileList('src/a.ts'));
+
+      expect(await getChangedFiles('gh-token', undefined, 42)).toEqual(['src/a.ts']);
+      expect(mockGetOctokit).toHaveBeenCalledWith('gh-token');
+      expect(mockPaginate).toHaveBeenCalledWith(mockListFiles, {
+        owner: 'test-owner',
+        repo: 'test-repo',
+        pull_number: 42,
+        per_page: 100,
+      });
+    });
+
+    it('should return undefined without changes', async () => {
+      expect(await getChangedFiles('gh-token', undefined)).toBeUndefined();
+      expect(await getChangedFiles('gh-token', [])).toBeUndefined();
+    });
+
+    it('should compare the release before the latest releases', async () => {
+      mockListReleases.mockResolvedValue({ data: [{ tag_name: 'v1.2.0' }, { tag_name: 'v1.1.0' }] });
+
+      expect(await getChangedFiles('gh-token', [{ releases: { count: 1 } }])).toEqual(['src/a.ts', 'src/b.ts']);
+      expect(mockListReleases).toHaveBeenCalledWith({ owner: 'test-owner', repo: 'test-repo', per_page: 2 });
+      expect(mockCompare).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        basehead: 'v1.1.0...v1.2.0',
+      });
+    });
+
+    it('should return undefined for the first release', async () => {
+      mockListReleases.mockResolvedValue({ data: [{ tag_name: 'v1.0.0' }] });
+
+      expect(await getChangedFiles('gh-token', [{ releases: { count: 1 } }])).toBeUndefined();
+    });
+
+    it('should compare commits in a time range from the parent of the oldest commit', async () => {
+      mockCommitPages([
+        { sha: 'c3', parents: [{ sha: 'c2' }] },
+        { sha: 'c2', parents: [{ sha: 'c1' }] },
+      ]);
+
+      const changes = [{ timeRange: { start: '2025-01-01T00:00:00Z', end: '2025-01-31T00:00:00Z' } }];
+      expect(await getChangedFiles('gh-token', changes)).toEqual(['src/a.ts', 'src/b.ts']);
+      expect(mockPaginate).toHaveBeenCalledWith(
+        mockListCommits,
+        {
+          owner: 'test-owner',
+          repo: 'test-repo',
+          sha: 'head-sha',
+          per_page: 100,
+          since: '2025-01-01T00:00:00Z',
+          until: '2025-01-31T00:00:00Z',
+        },
+        expect.any(Function)
+      );
+      expect(mockCompare).toHaveBeenCalledWith(expect.objectContaining({ basehead: 'c1...c3' }));
+    });
+
+    it('should page through time ranges with more than 100 commits', async () => {
+      const commits = commitChain(150);
+      mockCommitPages(commits.slice(0, 100), commits.slice(100));
+
+      const changes = [{ timeRange: { start: '2025-01-01T00:00:00Z', end: '2025-01-31T00:00:00Z' } }];
+      await getChangedFiles('gh-token', changes);
+
+      expect(mockCompare).toHaveBeenCalledWith(expect.objectContaining({ basehead: 'c0...c150' }));
+    });
+
+    it('should stop paging once a commit count is reached', async () => {
+      const commits = commitChain(300);
+      mockCommitPages(commits.slice(0, 100), commits.slice(100, 200), commits.slice(200));
+
+      await getChangedFiles('gh-token', [{ commits: { count: 150 } }]);
+
+      expect(mockCompare).toHaveBeenCalledWith(expect.objectContaining({ basehead: 'c150...c300' }));
+    });
+
+    it('should return no files when a time range has no commits', async () => {
+      mockCommitPages([]);
+
+      expect(await getChangedFiles('gh-token', [{ commits: { count: 5 } }])).toEqual([]);
+      expect(mockCompare).not.toHaveBeenCalled();
+    });
+
+    it('should return undefined when GitHub truncates the file list', async () => {
+      const files = Array.from({ length: 300 }, (_, i) => `src/file-${i}.ts`);
+      mockCompare.mockResolvedValue({ data: { files: fileList(...files) } });
+
+      expect(await getChangedFiles('gh-token', [{ tags: { start: 'v1.0.0', end: 'v2.0.0' } }])).toBeUndefined();
+
+      mockGetCommit.mockResolvedValue({ data: { files: fileList(...files) } });
+      expect(await getChangedFiles('gh-token', [{ commits: { shas: ['s1'] } }])).toBeUndefined();
+    });
+
+    it('should read each specific commit', async () => {
+      mockGetCommit
+        .mockResolvedValueOnce({ data: { files: fileList('src/a.ts') } })
+        .mockResolvedValueOnce({ data: { files: fileList('src/a.ts', 'docs/x.md') } });
+
+      expect(await getChangedFiles('gh-token', [{ commits: { shas: ['s1', 's2'] } }])).toEqual([
+        'src/a.ts',
+        'docs/x.md',
+      ]);
+      expect(mockGetCommit).toHaveBeenCalledWith({ owner: 'test-owner', repo: 'test-repo', ref: 's1' });
+    });
+
+    it('should compare commits since a SHA against the current commit', async () => {
+      await getChangedFiles('gh-token', [{ commits: { startSha: 'aaa' } }]);
+
+      expect(mockCompare).toHaveBeenCalledWith(expect.objectContaining({ basehead: 'aaa...head-sha' }));
+      expect(mockGetCommit).not.toHaveBeenCalled();
+    });
+
+    it('should include the start commit of a range unless excluded', async () => {
+      mockGetCommit.mockResolvedValue({ data: { files: fileList('start.ts') } });
+
+      expect(
+        await getChangedFiles('gh-token', [{ commits: { startSha: 'aaa', endSha: 'bbb', includeStartCommit: true } }])
+      ).toEqual(['start.ts', 'src/a.ts', 'src/b.ts']);
+      expect(mockCompare).toHaveBeenCalledWith(expect.objectContaining({ basehead: 'aaa...bbb' }));
+
+      mockGetCommit.mockClear();
+      await getChangedFiles('gh-token', [{ commits: { startSha: 'aaa', endSha: 'bbb', includeStartCommit: false } }]);
+      expect(mockGetCommit).not.toHaveBeenCalled();
+    });
+
+    it('should compare tags, defaulting the end to the current commit', async () => {
+      await getChangedFiles('gh-token', [{ tags: { start: 'v1.0.0', end: 'v1.1.0' } }]);
+      await getChangedFiles('gh-token', [{ tags: { start: 'v1.0.0' } }]);
+
+      expect(mockCompare).toHaveBeenCalledWith(expect.objectContaining({ basehead: 'v1.0.0...v1.1.0' }));
+      expect(mockCompare).toHaveBeenCalledWith(expect.objectContaining({ basehead: 'v1.0.0...head-sha' }));
+    });
+  });
+});
@@ -0,0 +1,157 @@
+// __tests__/pr-comment.test.ts
+import * as github from '@actions/github';
+import {
+  JOB_COMMENT_MARKER,
+  PREVIEW_COMMENT_MARKER,
+  buildJobComment,
+  buildPreviewComment,
+  findPreviewJob,
+  upsertPullRequestComment,
+} from '../src/pr-comment';
+
+const mockListComments = jest.fn();
+const mockCreateComment = jest.fn();
+const mockUpdateComment = jest.fn();
+const mockPaginate = jest.fn();
+
+// Mock @actions/github
+jest.mock('@actions/github', () => ({
+  context: {
+    payload: {},
+    repo: {
+      owner: 'test-owner',
+      repo: 'test-repo',
+    },
+  },
+  getOctokit: jest.fn(),
+}));
+
+const mockGetOctokit = github.getOctokit as jest.MockedFunction<typeof github.getOctokit>;
+
+describe('pr-comment', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetOctokit.mockReturnValue({
+      paginate: mockPaginate,
+      rest: {
+        issues: {
+          listComments: mockListComments,
+          createComment: mockCreateComment,
+          updateComment: mockUpdateComment,
+        },
+      },
+    } as any);
+  });
+
+  describe('buildJobComment', () => {
+    it('should include the marker, job link and state', () => {
+      const body = buildJobComment('job-123', 'requested', 'https://app.doc.holiday/jobs/job-123');
+
+      expect(body.startsWith(JOB_COMMENT_MARKER)).toBe(true);
+      expect(body).toContain('[job-123](https://app.doc.holiday/jobs/job-123)');
+      expect(body).toContain('`requested`');
+    });
+  });
+
+  describe('buildPreviewComment', () => {
+    it('should record the job and head commit in the marker', () => {
+      const body = buildPreviewComment(
+        { jobId: 'job-2', headSha: 'abcdef1234567890' },
+        'requested',
+        'https://app.doc.holiday/jobs/job-2'
+      );
+
+      expect(body.startsWith(`${PREVIEW_COMMENT_MARKER} job=job-2 head=abcdef1234567890 -->`)).toBe(true);
+      expect(body).toContain('| [job-2](https://app.doc.holiday/jobs/job-2) | `requested` | abcdef1 |');
+      expect(body).not.toContain('Supersedes');
+    });
+
+    it('should mention the superseded job', () => {
+      const body = buildPreviewComment({ jobId: 'job-2', headSha: 'abcdef1' }, 'requested', 'url', 'job-1');
+
+      expect(body).toContain('Supersedes job `job-1` from an earlier push.');
+    });
+  });
+
+  describe('findPreviewJob', () => {
+    it('should parse the job recorded in the preview comment', async () => {
+      mockPaginate.mockResolvedValue([
+        { id: 1, body: 'Looks good!' },
+        { id: 2, body: buildPreviewComment({ jobId: 'job-1', headSha: 'abc123' }, 'done', 'url') },
+      ]);
+
+      expect(await findPreviewJob('gh-token', 7)).toEqual({ jobId: 'job-1', headSha: 'abc123' });
+      expect(mockPaginate).toHaveBeenCalledWith(mockListComments, {
+        owner: 'test-owner',
+        repo: 'test-repo',
+        issue_number: 7,
+        per_page: 100,
+      });
+    });
+
+    it('should return undefined when there is no preview comment', async () => {
+      mockPaginate.mockResolvedValue([{ id: 1, body: buildJobComment('job-1', 'done', 'url') }]);
+
+      expect(await findPreviewJob('gh-token', 7)).toBeUndefined();
+    });
+  });
+
+  describe('upsertPullRequestComment', () => {
+    it('should create a comment when none exists', async () => {
+      mockPaginate.mockResolvedValue([{ id: 1, body: 'Looks good!' }]);
+
+      await upsertPullRequestComment('gh-token', 42, 'comment body');
+
+      expect(mockGetOctokit).toHaveBeenCalledWith('gh-token');
+      expect(mockPaginate).toHaveBeenCalledWith(mockListComments, {
+        owner: 'test-owner',
+        repo: 'test-repo',
+        issue_number: 42,
+        per_page: 100,
+      });
+      expect(mockCreateComment).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        issue_number: 42,
+        body: 'comment body',
+      });
+      expect(mockUpdateComment).not.toHaveBeenCalled();
+    });
+
+    it('should update the existing marked comment in place', async () => {
+      mockPaginate.mockResolvedValue([
+        { id: 1, body: 'Looks good!' },
+        { id: 2, body: `${JOB_COMMENT_MARKER}\nold job` },
+      ]);
+
+      await upsertPullRequestComment('gh-token', 42, 'new body');
+
+      expect(mockUpdateComment).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        comment_id: 2,
+        body: 'new body',
+      });
+      expect(mockCreateComment).not.toHaveBeenCalled();
+    });
+
+    it('should match on a custom marker', async () => {
+      mockPaginate.mockResolvedValue([
+        { id: 2, body: `${JOB_COMMENT_MARKER}\nold job` },
+      ]);
+
+      await upsertPullRequestComment('gh-token', 42, 'body', '<!-- other-marker -->');
+
+      expect(mockCreateComment).toHaveBeenCalled();
+      expect(mockUpdateComment).not.toHaveBeenCalled();
+    });
+
+    it('should ignore comments without a body', async () => {
+      mockPaginate.mockResolvedValue([{ id: 1, body: undefined }]);
+
+      await upsertPullRequestComment('gh-token', 42, 'comment body');
+
+      expect(mockCreateComment).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,190 @@
+// __tests__/preflight.test.ts
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import { verifyChanges } from '../src/preflight';
+import { runGit } from '../src/refs';
+
+const mockGetCommit = jest.fn();
+const mockGetRef = jest.fn();
+const mockCompareCommitsWithBasehead = jest.fn();
+
+jest.mock('@actions/core');
+jest.mock('../src/refs');
+
+// Mock @actions/github
+jest.mock('@actions/github', () => ({
+  context: {
+    payload: {},
+    repo: {
+      owner: 'test-owner',
+      repo: 'test-repo',
+    },
+  },
+  getOctokit: jest.fn(),
+}));
+
+const mockCore = core as jest.Mocked<typeof core>;
+const mockGetOctokit = github.getOctokit as jest.MockedFunction<typeof github.getOctokit>;
+const mockRunGit = runGit as jest.MockedFunction<typeof runGit>;
+
+const fullSha = (prefix: string) => prefix.padEnd(40, '0');
+
+const notFound = () => Object.assign(new Error('Not Found'), { status: 404 });
+
+describe('verifyChanges', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRunGit.mockResolvedValue(undefined);
+    mockGetOctokit.mockReturnValue({
+      rest: {
+        repos: {
+          getCommit: mockGetCommit,
+          compareCommitsWithBasehead: mockCompareCommitsWithBasehead,
+        },
+        git: {
+          getRef: mockGetRef,
+        },
+      },
+    } as any);
+  });
+
+  it('should pass through changes without refs', async () => {
+    const changes = [
+      { releases: { count: 1 } },
+      { commits: { count: 5 } },
+      { timeRange: { start: '2025-01-01T00:00:00Z', end: '2025-01-31T00:00:00Z' } },
+    ];
+
+    expect(await verifyChanges(changes, 'gh-token')).toEqual(changes);
+    expect(mockRunGit).not.toHaveBeenCalled();
+  });
+
+  describe('in the local checkout', () => {
+    it('should expand short SHAs', async () => {
+      mockRunGit.mockImplementation(async args => {
+        const ref = args[3];
+        return ref?.endsWith('^{commit}') ? fullSha(ref.replace('^{commit}', '')) : undefined;
+      });
+
+      const result = await verifyChanges([{ commits: { shas: ['abc1234', 'def5678'] } }], undefined);
+
+      expect(result).toEqual([{ commits: { shas: [fullSha('abc1234'), fullSha('def5678')] } }]);
+      expect(mockRunGit).toHaveBeenCalledWith(['rev-parse', '--verify', '--quiet', 'abc1234^{commit}']);
+      expect(mockGetOctokit).not.toHaveBeenCalled();
+    });
+
+    it('should confirm the range start is an ancestor of the end', async () => {
+      mockRunGit.mockImplementation(async args => {
+        if (args[0] === 'merge-base') {
+          return fullSha('abc1234');
+        }
+        return fullSha(args[3].replace('^{commit}', ''));
+      });
+
+      const result = await verifyChanges(
+        [{ commits: { startSha: 'abc1234', endSha: 'def5678', includeStartCommit: false } }],
+        undefined
+      );
+
+      expect(result).toEqual([
+        { commits: { startSha: fullSha('abc1234'), endSha: fullSha('def5678'), includeStartCommit: false } },
+      ]);
+      expect(mockRunGit).toHaveBeenCalledWith(['merge-base', fullSha('abc1234'), fullSha('def5678')]);
+    });
+
+    it('should fail when the range start is not an ancestor of the end', async () => {
+      mockRunGit.mockImplementation(async args => {
+        if (args[0] === 'merge-base') {
+          return fullSha('def5678');
+        }
+        return fullSha(args[3].replace('^{commit}', ''));
+      });
+
+      await expect(
+        verifyChanges([{ commits: { startSha: 'abc1234', endSha: 'def5678' } }], undefined)
+      ).rejects.toThrow(
+        `Commit range start ${fullSha('abc1234')} is not an ancestor of end ${fullSha('def5678')}. Check that the start and end SHAs are not swapped.`
+      );
+    });
+
+    it('should find tags', async () => {
+      mockRunGit.mockResolvedValue(fullSha('aaa'));
+
+      const changes = [{ tags: { start: 'v1.0.0', end: 'v1.1.0' } }];
+      expect(await verifyChanges(changes, undefined)).toEqual(changes);
+      expect(mockRunGit).toHaveBeenCalledWith(['rev-parse', '--verify', '--quiet', 'refs/tags/v1.1.0']);
+    });
+  });
+
+  describe('through the GitHub API', () => {
+    it('should expand short SHAs', async () => {
+      mockGetCommit.mockResolvedValue({ data: { sha: fullSha('abc1234') } });
+
+      const result = await verifyChanges([{ commits: { startSha: 'abc1234' } }], 'gh-token');
+
+      expect(result).toEqual([{ commits: { startSha: fullSha('abc1234') } }]);
+      expect(mockGetCommit).toHaveBeenCalledWith({ owner: 'test-owner', repo: 'test-repo', ref: 'abc1234' });
+    });
+
+    it('should fail for commits that do not exist', async () => {
+      mockGetCommit.mockRejectedValue(Object.assign(new Error('No commit found for SHA: abc1234'), { status: 422 }));
+
+      await expect(verifyChanges([{ commits: { shas: ['abc1234'] } }], 'gh-token')).rejects.toThrow(
+        'Commit abc1234 does not exist in test-owner/test-repo. Check the SHA for typos and make sure the commit has been pushed.'
+      );
+    });
+
+    it('should fail for tags that do not exist', async () => {
+      mockGetRef.mockRejectedValue(notFound());
+
+      await expect(verifyChanges([{ tags: { start: 'v1.0.O' } }], 'gh-token')).rejects.toThrow(
+        'Tag v1.0.O does not exist in test-owner/test-repo. Check the tag name for typos and make sure it has been pushed.'
+      );
+      expect(mockGetRef).toHaveBeenCalledWith({ owner: 'test-owner', repo: 'test-repo', ref: 'tags/v1.0.O' });
+    });
+
+    it('should compare the range to check ancestry', async () => {
+      mockGetCommit.mockImplementation(async ({ ref }: { ref: string }) => ({ data: { sha: fullSha(ref) } }));
+      mockCompareCommitsWithBasehead.mockResolvedValue({ data: { status: 'diverged' } });
+
+      await expect(
+        verifyChanges([{ commits: { startSha: 'abc1234', endSha: 'def5678' } }], 'gh-token')
+      ).rejects.toThrow('is not an ancestor of end');
+      expect(mockCompareCommitsWithBasehead).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        basehead: `${fullSha('abc1234')}...${fullSha('def5678')}`,
+        per_page: 1,
+      });
+    });
+
+    it('should accept ranges where the end is ahead of the start', async () => {
+      mockGetCommit.mockImplementation(async ({ ref }: { ref: string }) => ({ data: { sha: fullSha(ref) } }));
+      mockCompareCommitsWithBasehead.mockResolvedValue({ data: { status: 'ahead' } });
+
+      await expect(
+        verifyChanges([{ commits: { startSha: 'abc1234', endSha: 'def5678' } }], 'gh-token')
+      ).resolves.toHaveLength(1);
+    });
+
+    it('should warn and continue when a lookup fails for other reasons', async () => {
+      mockGetCommit.mockRejectedValue(Object.assign(new Error('Resource not accessible by integration'), { status: 403 }));
+
+      const result = await verifyChanges([{ commits: { startSha: 'abc1234' } }], 'gh-token');
+
+      expect(result).toEqual([{ commits: { startSha: 'abc1234' } }]);
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'Could not verify commit abc1234: Resource not accessible by integration'
+      );
+    });
+  });
+
+  it('should warn when refs cannot be checked without a token', async () => {
+    const result = await verifyChanges([{ tags: { start: 'v1.0.0' } }], undefined);
+
+    expect(result).toEqual([{ tags: { start: 'v1.0.0' } }]);
+    expect(mockCore.warning).toHaveBeenCalledWith(
+      'Could not verify tag v1.0.0: not in the local checkout and github-token is not set'
+    );
+  });
+});
@@ -0,0 +1,277 @@
+// __tests__/refs.test.ts
+import * as github from '@actions/github';
+import { execFile } from 'child_process';
+import { isRelativeRef, parseRefRange, parseTagsRange, resolveCommitRange, resolveRef } from '../src/refs';
+
+const mockGetCommit = jest.fn();
+const mockCompareCommitsWithBasehead = jest.fn();
+
+jest.mock('@actions/core');
+jest.mock('child_process');
+
+// Mock @actions/github
+jest.mock('@actions/github', () => ({
+  context: {
+    payload: {},
+    ref: 'refs/heads/main',
+    sha: 'head000',
+    repo: {
+      owner: 'test-owner',
+      repo: 'test-repo',
+    },
+  },
+  getOctokit: jest.fn(),
+}));
+
+const mockGetOctokit = github.getOctokit as jest.MockedFunction<typeof github.getOctokit>;
+const mockExecFile = execFile as unknown as jest.Mock;
+
+// Answer git commands from a table, failing for anything else
+const mockGit = (outputs: Record<string, string>) => {
+  mockExecFile.mockImplementation((_file: string, args: string[], _options: unknown, callback: Function) => {
+    const output = outputs[args.join(' ')];
+    callback(output === undefined ? new Error('git failed') : null, output === undefined ? '' : `${output}\n`);
+  });
+};
+
+// Commits of a linear history: c3 -> c2 -> c1, plus a merge commit m1 with parents c3 and f1
+const commits: Record<string, { sha: string; parents: Array<{ sha: string }> }> = {
+  head000: { sha: 'head000', parents: [{ sha: 'c3' }] },
+  main: { sha: 'c3', parents: [{ sha: 'c2' }] },
+  c3: { sha: 'c3', parents: [{ sha: 'c2' }] },
+  c2: { sha: 'c2', parents: [{ sha: 'c1' }] },
+  c1: { sha: 'c1', parents: [] },
+  feature: { sha: 'm1', parents: [{ sha: 'c3' }, { sha: 'f1' }] },
+  m1: { sha: 'm1', parents: [{ sha: 'c3' }, { sha: 'f1' }] },
+};
+
+describe('refs', () => {
+  describe('parseRefRange', () => {
+    it('should parse two- and three-dot ranges', () => {
+      expect(parseRefRange('commits-range', 'abc123..def456')).toEqual({
+        start: 'abc123',
+        end: 'def456',
+        symmetric: false,
+      });
+      expect(parseRefRange('commits-range', 'main...feature')).toEqual({
+        start: 'main',
+        end: 'feature',
+        symmetric: true,
+      });
+    });
+
+    it('should keep dots inside ref names', () => {
+      expect(parseRefRange('tags-range', 'v1.0.0..v1.1.0')).toEqual({
+        start: 'v1.0.0',
+        end: 'v1.1.0',
+        symmetric: false,
+      });
+    });
+
+    it('should default empty sides and bare refs to HEAD', () => {
+      expect(parseRefRange('commits-range', 'HEAD~5')).toEqual({ start: 'HEAD~5', end: 'HEAD', symmetric: false });
+      expect(parseRefRange('commits-range', '@{upstream}..')).toEqual({
+        start: '@{upstream}',
+        end: 'HEAD',
+        symmetric: false,
+      });
+      expect(parseRefRange('commits-range', '..main')).toEqual({ start: 'HEAD', end: 'main', symmetric: false });
+    });
+
+    it('should reject malformed ranges', () => {
+      expect(() => parseRefRange('commits-range', 'a....b')).toThrow(
+        'commits-range must look like A..B, A...B or a single ref, got "a....b"'
+      );
+      expect(() => parseRefRange('commits-range', 'a b..c')).toThrow('commits-range must look like');
+    });
+  });
+
+  describe('parseTagsRange', () => {
+    it('should parse tag names', () => {
+      expect(parseTagsRange('v1.0.0..v1.1.0')).toEqual({ start: 'v1.0.0', end: 'v1.1.0' });
+      expect(parseTagsRange('v1.0.0...v1.1.0')).toEqual({ start: 'v1.0.0', end: 'v1.1.0' });
+    });
+
+    it('should leave the end open for HEAD', () => {
+      expect(parseTagsRange('v1.0.0..HEAD')).toEqual({ start: 'v1.0.0', end: undefined });
+      expect(parseTagsRange('v1.0.0')).toEqual({ start: 'v1.0.0', end: undefined });
+    });
+
+    it('should reject relative refs', () => {
+      expect(() => parseTagsRange('HEAD~3..v1.1.0')).toThrow('tags-range must start at a tag, got "HEAD~3"');
+      expect(() => parseTagsRange('v1.0.0..@{upstream}')).toThrow(
+        'tags-range must end at a tag or HEAD, got "@{upstream}"'
+      );
+    });
+  });
+
+  describe('isRelativeRef', () => {
+    it('should detect relative refs', () => {
+      for (const ref of ['HEAD', 'HEAD~2', 'HEAD^', '@', '@{upstream}', 'feature@{u}', 'main~3', 'main^2']) {
+        expect(isRelativeRef(ref)).toBe(true);
+      }
+    });
+
+    it('should not flag fixed names', () => {
+      for (const ref of ['main', 'v1.0.0', 'abc123', 'HEADLINE', 'release/1.x']) {
+        expect(isRelativeRef(ref)).toBe(false);
+      }
+    });
+  });
+
+  describe('resolveRef', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+      delete process.env.GITHUB_HEAD_REF;
+      mockGit({});
+      mockGetCommit.mockImplementation(async ({ ref }: { ref: string }) => {
+        if (!commits[ref]) {
+          throw new Error(`No commit found for SHA: ${ref}`);
+        }
+        return { data: commits[ref] };
+      });
+      mockGetOctokit.mockReturnValue({
+        rest: {
+          repos: {
+            getCommit: mockGetCommit,
+            compareCommitsWithBasehead: mockCompareCommitsWithBasehead,
+          },
+        },
+      } as any);
+    });
+
+    it('should return SHAs unchanged', async () => {
+      expect(await resolveRef('abc1234', 'gh-token')).toBe('abc1234');
+      expect(mockExecFile).not.toHaveBeenCalled();
+    });
+
+    it('should resolve refs through the local checkout', async () => {
+      mockGit({ 'rev-parse --verify --quiet HEAD~2^{commit}': 'c1' });
+
+      expect(await resolveRef('HEAD~2', undefined)).toBe('c1');
+      expect(mockExecFile).toHaveBeenCalledWith(
+        'git',
+        ['rev-parse', '--verify', '--quiet', 'HEAD~2^{commit}'],
+        expect.objectContaining({ cwd: expect.any(String) }),
+        expect.any(Function)
+      );
+      expect(mockGetOctokit).not.toHaveBeenCalled();
+    });
+
+    it('should follow first parents through the API', async () => {
+      expect(await resolveRef('HEAD~2', 'gh-token')).toBe('c2');
+      expect(await resolveRef('main~2', 'gh-token')).toBe('c1');
+    });
+
+    it('should select the Nth parent through the API', async () => {
+      expect(await resolveRef('feature^2', 'gh-token')).toBe('f1');
+      expect(await resolveRef('feature^', 'gh-token')).toBe('c3');
+      expect(await resolveRef('feature^0', 'gh-token')).toBe('m1');
+    });
+
+    it('should resolve @{upstream} to the current branch on GitHub', async () => {
+      expect(await resolveRef('@{upstream}', 'gh-token')).toBe('c3');
+      expect(mockGetCommit).toHaveBeenCalledWith({ owner: 'test-owner', repo: 'test-repo', ref: 'main' });
+    });
+
+    it('should resolve @{upstream} to the PR head branch', async () => {
+      process.env.GITHUB_HEAD_REF = 'feature';
+
+      expect(await resolveRef('@{u}', 'gh-token')).toBe('m1');
+    });
+
+    it('should explain how to resolve refs without a token', async () => {
+      await expect(resolveRef('HEAD~2', undefined)).rejects.toThrow(
+        'Could not resolve "HEAD~2" in the local checkout. Fetch more history (fetch-depth: 0) or set github-token to resolve it through the GitHub API.'
+      );
+    });
+
+    it('should report refs the API cannot resolve', async () => {
+      await expect(resolveRef('mian', 'gh-token')).rejects.toThrow(
+        'Could not resolve "mian": No commit found for SHA: mian'
+      );
+      await expect(resolveRef('c1~1', 'gh-token')).rejects.toThrow('Could not resolve "c1~1": commit c1 has no parent 1');
+    });
+  });
+
+  describe('resolveCommitRange', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockGit({
+        'rev-parse --verify --quiet HEAD~2^{commit}': 'c1',
+        'rev-parse --verify --quiet main^{commit}': 'c3',
+        'rev-parse --verify --quiet feature^{commit}': 'm1',
+        'rev-parse --verify --quiet HEAD^{commit}': 'head000',
+      });
+      mockGetOctokit.mockReturnValue({
+        rest: {
+          repos: {
+            getCommit: mockGetCommit,
+            compareCommitsWithBasehead: mockCompareCommitsWithBasehead,
+          },
+        },
+      } as any);
+    });
+
+    it('should return changesets without a range unchanged', async () => {
+      const changeset = { commitsCount: 5 };
+
+      expect(await resolveCommitRange(changeset, undefined)).toBe(changeset);
+    });
+
+    it('should resolve both ends and exclude the start commit', async () => {
+      const result = await resolveCommitRange(
+        { commitsRange: { start: 'HEAD~2', end: 'HEAD', symmetric: false } },
+        undefined
+      );
+
+      expect(result).toEqual({
+        commitsStartSha: 'c1',
+        commitsEndSha: 'head000',
+        commitsIncludeStart: false,
+      });
+      expect(result.commitsRange).toBeUndefined();
+    });
+
+    it('should keep an explicit commits-include-start', async () => {
+      const result = await resolveCommitRange(
+        { commitsRange: { start: 'HEAD~2', end: 'HEAD', symmetric: false }, commitsIncludeStart: true },
+        undefined
+      );
+
+      expect(result.commitsIncludeStart).toBe(true);
+    });
+
+    it('should start three-dot ranges at the merge base', async () => {
+      mockGit({
+        'rev-parse --verify --quiet main^{commit}': 'c3',
+        'rev-parse --verify --quiet feature^{commit}': 'm1',
+        'merge-base c3 m1': 'c2',
+      });
+
+      const result = await resolveCommitRange(
+        { commitsRange: { start: 'main', end: 'feature', symmetric: true } },
+        undefined
+      );
+
+      expect(result).toMatchObject({ commitsStartSha: 'c2', commitsEndSha: 'm1' });
+    });
+
+    it('should find the merge base through the API without history', async () => {
+      mockCompareCommitsWithBasehead.mockResolvedValue({ data: { merge_base_commit: { sha: 'c2' } } });
+
+      const result = await resolveCommitRange(
+        { commitsRange: { start: 'abc1234', end: 'def5678', symmetric: true } },
+        'gh-token'
+      );
+
+      expect(result).toMatchObject({ commitsStartSha: 'c2', commitsEndSha: 'def5678' });
+      expect(mockCompareCommitsWithBasehead).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        basehead: 'abc1234...def5678',
+        per_page: 1,
+      });
+    });
+  });
+});
@@ -0,0 +1,106 @@
+// __tests__/release-notes.test.ts
+import * as github from '@actions/github';
+import {
+  SECTION_START_MARKER,
+  SECTION_END_MARKER,
+  mergeReleaseBody,
+  updateReleaseBody,
+} from '../src/release-notes';
+
+const mockGetRelease = jest.fn();
+const mockUpdateRelease = jest.fn();
+
+// Mock @actions/github
+jest.mock('@actions/github', () => ({
+  context: {
+    payload: {},
+    repo: {
+      owner: 'test-owner',
+      repo: 'test-repo',
+    },
+  },
+  getOctokit: jest.fn(),
+}));
+
+const mockGetOctokit = github.getOctokit as jest.MockedFunction<typeof github.getOctokit>;
+
+describe('release-notes', () => {
+  describe('mergeReleaseBody', () => {
+    it('should replace the body', () => {
+      expect(mergeReleaseBody('Old body', 'New notes', 'replace')).toBe('New notes');
+    });
+
+    it('should append to the body', () => {
+      expect(mergeReleaseBody('Old body', 'New notes', 'append')).toBe('Old body\n\nNew notes');
+    });
+
+    it('should append to an empty body without leading blank lines', () => {
+      expect(mergeReleaseBody('', 'New notes', 'append')).toBe('New notes');
+    });
+
+    it('should fill an existing marked section', () => {
+      const current = `Intro\n\n${SECTION_START_MARKER}\nold notes\n${SECTION_END_MARKER}\n\nFooter`;
+
+      expect(mergeReleaseBody(current, 'New notes', 'section')).toBe(
+        `Intro\n\n${SECTION_START_MARKER}\nNew notes\n${SECTION_END_MARKER}\n\nFooter`
+      );
+    });
+
+    it('should add the section at the end when markers are missing', () => {
+      expect(mergeReleaseBody('Intro', 'New notes', 'section')).toBe(
+        `Intro\n\n${SECTION_START_MARKER}\nNew notes\n${SECTION_END_MARKER}`
+      );
+    });
+
+    it('should add the section when only the start marker is present', () => {
+      const current = `Intro\n${SECTION_START_MARKER}`;
+
+      expect(mergeReleaseBody(current, 'New notes', 'section')).toBe(
+        `${current}\n\n${SECTION_START_MARKER}\nNew notes\n${SECTION_END_MARKER}`
+      );
+    });
+  });
+
+  describe('updateReleaseBody', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockGetOctokit.mockReturnValue({
+        rest: {
+          repos: {
+            getRelease: mockGetRelease,
+            updateRelease: mockUpdateRelease,
+          },
+        },
+      } as any);
+    });
+
+    it('should read the latest release body and patch it', async () => {
+      mockGetRelease.mockResolvedValue({ data: { body: 'Current body' } });
+
+      await updateReleaseBody('gh-token', 99, 'Generated notes', 'append');
+
+      expect(mockGetOctokit).toHaveBeenCalledWith('gh-token');
+      expect(mockGetRelease).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        release_id: 99,
+      });
+      expect(mockUpdateRelease).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        release_id: 99,
+        body: 'Current body\n\nGenerated notes',
+      });
+    });
+
+    it('should handle releases with a null body', async () => {
+      mockGetRelease.mockResolvedValue({ data: { body: null } });
+
+      await updateReleaseBody('gh-token', 99, 'Generated notes', 'append');
+
+      expect(mockUpdateRelease).toHaveBeenCalledWith(
+        expect.objectContaining({ body: 'Generated notes' })
+      );
+    });
+  });
+});
@@ -0,0 +1,64 @@
+// __tests__/retry.test.ts
+import { getRetryDelay, isRetryableStatus } from '../src/retry';
+
+describe('retry', () => {
+  describe('isRetryableStatus', () => {
+    it('should retry timeouts, rate limits and server errors', () => {
+      for (const status of [408, 429, 500, 502, 503, 504]) {
+        expect(isRetryableStatus(status)).toBe(true);
+      }
+    });
+
+    it('should not retry client errors', () => {
+      for (const status of [400, 401, 403, 404, 409, 422]) {
+        expect(isRetryableStatus(status)).toBe(false);
+      }
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should double the delay with each attempt', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+
+      expect(getRetryDelay(1)).toBe(1000);
+      expect(getRetryDelay(2)).toBe(2000);
+      expect(getRetryDelay(3)).toBe(4000);
+    });
+
+    it('should add up to 25% jitter', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      expect(getRetryDelay(1)).toBe(1125);
+      expect(getRetryDelay(3)).toBe(4500);
+    });
+
+    it('should cap the delay at one minute', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+
+      expect(getRetryDelay(10)).toBe(60000);
+      expect(getRetryDelay(1, '300')).toBe(60000);
+    });
+
+    it('should honor Retry-After seconds', () => {
+      expect(getRetryDelay(1, '5')).toBe(5000);
+      expect(getRetryDelay(3, '0')).toBe(0);
+    });
+
+    it('should honor Retry-After dates', () => {
+      const now = Date.parse('2025-01-01T00:00:00Z');
+
+      expect(getRetryDelay(1, 'Wed, 01 Jan 2025 00:00:10 GMT', now)).toBe(10000);
+      expect(getRetryDelay(1, 'Tue, 31 Dec 2024 23:59:00 GMT', now)).toBe(0);
+    });
+
+    it('should fall back to backoff for unreadable Retry-After values', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+
+      expect(getRetryDelay(2, 'soon')).toBe(2000);
+    });
+  });
+});
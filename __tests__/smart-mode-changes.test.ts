@@ -8,6 +8,7 @@ jest.mock('../src/inputs');
 jest.mock('../src/github-context');
 jest.mock('../src/changes');
 jest.mock('../src/api');
+jest.mock('../src/idempotency');
 
 // Import after mocking
 import { parseInputs } from '../src/inputs';
@@ -53,7 +54,7 @@ describe('Smart Mode Changes Bug', () => {
     };
 
     mockParseInputs.mockReturnValue(mockInputs);
-    mockGetSmartDefaults.mockReturnValue(mockSmartDefaults);
+    mockGetSmartDefaults.mockResolvedValue(mockSmartDefaults);
     mockInferSourceConnection.mockReturnValue('owner/repo');
     mockCreateJob.mockResolvedValue(mockResponse);
     mockConstructJobUrl.mockReturnValue('https://app.doc.holiday/jobs/job-123');
@@ -94,7 +95,7 @@ describe('Smart Mode Changes Bug', () => {
     };
 
     mockParseInputs.mockReturnValue(mockInputs);
-    mockGetSmartDefaults.mockReturnValue(mockSmartDefaults);
+    mockGetSmartDefaults.mockResolvedValue(mockSmartDefaults);
     mockInferSourceConnection.mockReturnValue('owner/repo');
     mockCreateJob.mockResolvedValue(mockResponse);
     mockConstructJobUrl.mockReturnValue('https://app.doc.holiday/jobs/job-789');
@@ -0,0 +1,149 @@
+// __tests__/summary.test.ts
+import * as core from '@actions/core';
+import { describeChanges, writeBatchSummary, writeDryRunSummary, writeJobSummary } from '../src/summary';
+import { DocHolidayRequest } from '../src/types';
+
+// Mock @actions/core
+jest.mock('@actions/core', () => {
+  const summary = {
+    addHeading: jest.fn().mockReturnThis(),
+    addRaw: jest.fn().mockReturnThis(),
+    addCodeBlock: jest.fn().mockReturnThis(),
+    addTable: jest.fn().mockReturnThis(),
+    addLink: jest.fn().mockReturnThis(),
+    write: jest.fn(),
+  };
+  return {
+    summary,
+    warning: jest.fn(),
+  };
+});
+
+const mockSummary = core.summary as unknown as Record<string, jest.Mock>;
+const mockCore = core as jest.Mocked<typeof core>;
+
+describe('summary', () => {
+  const request: DocHolidayRequest = {
+    docRequest: {
+      title: 'Test Job',
+      body: 'Test body',
+      sourceConnection: 'owner/repo',
+    },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSummary.write.mockResolvedValue(core.summary);
+  });
+
+  describe('writeJobSummary', () => {
+    it('should write a table with the resolved request and job link', async () => {
+      await writeJobSummary({
+        title: 'Release notes for <v1.0.0>',
+        eventType: 'release',
+        sourceConnection: 'owner/repo',
+        publications: ['api-docs', 'user-guide'],
+        changes: [{ releases: { count: 1 } }],
+        changesetSource: 'smart defaults',
+        jobId: 'job-123',
+        jobState: 'requested',
+        jobUrl: 'https://app.doc.holiday/jobs/job-123',
+      });
+
+      expect(mockSummary.addHeading).toHaveBeenCalledWith('doc.holiday job', 2);
+      expect(mockSummary.addTable).toHaveBeenCalledWith([
+        [{ data: 'Field', header: true }, { data: 'Value', header: true }],
+        ['Title', 'Release notes for &lt;v1.0.0&gt;'],
+        ['Event type', 'release'],
+        ['Source connection', 'owner/repo'],
+        ['Publications', 'api-docs, user-guide'],
+        ['Labels', '—'],
+        ['Changeset', 'Last 1 release'],
+        ['Changeset source', 'smart defaults'],
+        ['Job', '<a href="https://app.doc.holiday/jobs/job-123">job-123</a>'],
+        ['State', 'requested'],
+      ]);
+      expect(mockSummary.write).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('writeBatchSummary', () => {
+    it('should write one row per job', async () => {
+      await writeBatchSummary([
+        { name: 'api', id: 'job-1', state: 'requested', url: 'https://app.doc.holiday/jobs/job-1' },
+        { name: 'guide', id: 'job-2', state: 'done', url: 'https://app.doc.holiday/jobs/job-2' },
+      ]);
+
+      expect(mockSummary.addTable).toHaveBeenCalledWith([
+        [
+          { data: 'Name', header: true },
+          { data: 'Job', header: true },
+          { data: 'State', header: true },
+        ],
+        ['api', '<a href="https://app.doc.holiday/jobs/job-1">job-1</a>', 'requested'],
+        ['guide', '<a href="https://app.doc.holiday/jobs/job-2">job-2</a>', 'done'],
+      ]);
+    });
+  });
+
+  describe('describeChanges', () => {
+    it('should describe a missing changeset', () => {
+      expect(describeChanges(undefined)).toBe('Not specified (doc.holiday infers changes from the body)');
+      expect(describeChanges([])).toBe('Not specified (doc.holiday infers changes from the body)');
+    });
+
+    it('should describe releases and commit counts', () => {
+      expect(describeChanges([{ releases: { count: 2 } }])).toBe('Last 2 releases');
+      expect(describeChanges([{ commits: { count: 1 } }])).toBe('Last 1 commit');
+    });
+
+    it('should describe time ranges', () => {
+      expect(describeChanges([{ timeRange: { start: '2025-01-01T00:00:00Z', end: '2025-01-31T23:59:59Z' } }])).toBe(
+        'Changes from 2025-01-01T00:00:00Z to 2025-01-31T23:59:59Z'
+      );
+    });
+
+    it('should describe commit SHAs and ranges', () => {
+      expect(describeChanges([{ commits: { shas: ['abc', 'def'] } }])).toBe('2 specific commits: abc, def');
+      expect(describeChanges([{ commits: { startSha: 'abc' } }])).toBe('Commits since abc');
+      expect(describeChanges([{ commits: { startSha: 'abc', endSha: 'def', includeStartCommit: true } }])).toBe(
+        'Commits abc..def (including start commit)'
+      );
+      expect(describeChanges([{ commits: { startSha: 'abc', endSha: 'def', includeStartCommit: false } }])).toBe(
+        'Commits abc..def (excluding start commit)'
+      );
+    });
+
+    it('should describe tags', () => {
+      expect(describeChanges([{ tags: { start: 'v1.0.0', end: 'v1.1.0' } }])).toBe('Tags v1.0.0..v1.1.0');
+      expect(describeChanges([{ tags: { start: 'v1.0.0' } }])).toBe('Changes since tag v1.0.0');
+    });
+
+    it('should join multiple changes', () => {
+      expect(describeChanges([{ releases: { count: 1 } }, { commits: { shas: ['abc'] } }])).toBe(
+        'Last 1 release; 1 specific commit: abc'
+      );
+    });
+  });
+
+  describe('writeDryRunSummary', () => {
+    it('should write each request as a JSON code block', async () => {
+      await writeDryRunSummary([request, request]);
+
+      expect(mockSummary.addHeading).toHaveBeenCalledWith('doc.holiday dry run', 2);
+      expect(mockSummary.addCodeBlock).toHaveBeenCalledTimes(2);
+      expect(mockSummary.addCodeBlock).toHaveBeenCalledWith(JSON.stringify(request, null, 2), 'json');
+      expect(mockSummary.write).toHaveBeenCalledTimes(1);
+    });
+
+    it('should warn instead of throwing when the summary cannot be written', async () => {
+      mockSummary.write.mockRejectedValue(new Error('Unable to find environment variable for $GITHUB_STEP_SUMMARY'));
+
+      await expect(writeDryRunSummary([request])).resolves.toBeUndefined();
+
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'Failed to write step summary: Unable to find environment variable for $GITHUB_STEP_SUMMARY'
+      );
+    });
+  });
+});
@@ -0,0 +1,121 @@
+// __tests__/tags.test.ts
+import * as github from '@actions/github';
+import { compareSemver, findPreviousTag, parseSemver } from '../src/tags';
+
+const mockListTags = jest.fn();
+const mockPaginate = jest.fn();
+
+// Mock @actions/github
+jest.mock('@actions/github', () => ({
+  context: {
+    payload: {},
+    repo: {
+      owner: 'test-owner',
+      repo: 'test-repo',
+    },
+  },
+  getOctokit: jest.fn(),
+}));
+
+const mockGetOctokit = github.getOctokit as jest.MockedFunction<typeof github.getOctokit>;
+
+const tagList = (...names: string[]) => names.map(name => ({ name }));
+
+describe('tags', () => {
+  describe('parseSemver', () => {
+    it('should parse versions with and without a v prefix', () => {
+      expect(parseSemver('v1.4.0')).toEqual({ major: 1, minor: 4, patch: 0, prerelease: [] });
+      expect(parseSemver('2.0.10')).toEqual({ major: 2, minor: 0, patch: 10, prerelease: [] });
+    });
+
+    it('should parse prerelease identifiers and ignore build metadata', () => {
+      expect(parseSemver('v1.4.0-rc.1+build.5')).toEqual({
+        major: 1,
+        minor: 4,
+        patch: 0,
+        prerelease: ['rc', '1'],
+      });
+    });
+
+    it('should reject non-semver tags', () => {
+      expect(parseSemver('latest')).toBeUndefined();
+      expect(parseSemver('v1.4')).toBeUndefined();
+      expect(parseSemver('release-1.4.0')).toBeUndefined();
+    });
+  });
+
+  describe('compareSemver', () => {
+    const compare = (a: string, b: string) => Math.sign(compareSemver(parseSemver(a)!, parseSemver(b)!));
+
+    it('should compare major, minor and patch numerically', () => {
+      expect(compare('v1.10.0', 'v1.9.0')).toBe(1);
+      expect(compare('v1.0.1', 'v1.0.2')).toBe(-1);
+      expect(compare('v2.0.0', '2.0.0')).toBe(0);
+    });
+
+    it('should rank prereleases below the release', () => {
+      expect(compare('v1.0.0-rc.1', 'v1.0.0')).toBe(-1);
+      expect(compare('v1.0.0', 'v1.0.0-rc.1')).toBe(1);
+    });
+
+    it('should compare prerelease identifiers', () => {
+      expect(compare('v1.0.0-rc.2', 'v1.0.0-rc.10')).toBe(-1);
+      expect(compare('v1.0.0-alpha', 'v1.0.0-beta')).toBe(-1);
+      expect(compare('v1.0.0-alpha', 'v1.0.0-alpha.1')).toBe(-1);
+      expect(compare('v1.0.0-1', 'v1.0.0-alpha')).toBe(-1);
+    });
+  });
+
+  describe('findPreviousTag', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockGetOctokit.mockReturnValue({
+        paginate: mockPaginate,
+        rest: {
+          repos: {
+            listTags: mockListTags,
+          },
+        },
+      } as any);
+    });
+
+    it('should find the highest tag below the current one', async () => {
+      mockPaginate.mockResolvedValue(tagList('v1.4.0', 'v1.3.2', 'v1.10.0', 'v1.3.10', 'latest'));
+
+      const result = await findPreviousTag('gh-token', 'v1.4.0');
+
+      expect(result).toBe('v1.3.10');
+      expect(mockGetOctokit).toHaveBeenCalledWith('gh-token');
+      expect(mockPaginate).toHaveBeenCalledWith(mockListTags, {
+        owner: 'test-owner',
+        repo: 'test-repo',
+        per_page: 100,
+      });
+    });
+
+    it('should skip prereleases when the current tag is stable', async () => {
+      mockPaginate.mockResolvedValue(tagList('v1.4.0', 'v1.4.0-rc.2', 'v1.3.0'));
+
+      expect(await findPreviousTag('gh-token', 'v1.4.0')).toBe('v1.3.0');
+    });
+
+    it('should consider prereleases when the current tag is a prerelease', async () => {
+      mockPaginate.mockResolvedValue(tagList('v1.4.0-rc.2', 'v1.4.0-rc.1', 'v1.3.0'));
+
+      expect(await findPreviousTag('gh-token', 'v1.4.0-rc.2')).toBe('v1.4.0-rc.1');
+    });
+
+    it('should return undefined for the first tag', async () => {
+      mockPaginate.mockResolvedValue(tagList('v1.0.0'));
+
+      expect(await findPreviousTag('gh-token', 'v1.0.0')).toBeUndefined();
+    });
+
+    it('should throw for non-semver tags', async () => {
+      await expect(findPreviousTag('gh-token', 'nightly')).rejects.toThrow(
+        'Tag nightly is not a semantic version (expected e.g. v1.4.0)'
+      );
+      expect(mockPaginate).not.toHaveBeenCalled();
+    });
+  });
+});
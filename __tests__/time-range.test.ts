@@ -0,0 +1,188 @@
+// __tests__/time-range.test.ts
+import * as github from '@actions/github';
+import { parseTimeExpression, parseTimeRange, resolveTimeRange } from '../src/time-range';
+
+const mockListReleases = jest.fn();
+
+// Mock @actions/github
+jest.mock('@actions/github', () => ({
+  context: {
+    payload: {},
+    repo: {
+      owner: 'test-owner',
+      repo: 'test-repo',
+    },
+  },
+  getOctokit: jest.fn(),
+}));
+
+const mockGetOctokit = github.getOctokit as jest.MockedFunction<typeof github.getOctokit>;
+
+// Wednesday
+const now = new Date('2025-06-18T15:30:00Z');
+
+describe('time-range', () => {
+  describe('parseTimeExpression', () => {
+    it('should resolve durations before now', () => {
+      expect(parseTimeExpression('time-range-start', '7d', now)).toBe('2025-06-11T15:30:00Z');
+      expect(parseTimeExpression('time-range-start', '36h', now)).toBe('2025-06-17T03:30:00Z');
+      expect(parseTimeExpression('time-range-start', '2w', now)).toBe('2025-06-04T15:30:00Z');
+    });
+
+    it('should resolve the start of calendar periods in UTC', () => {
+      expect(parseTimeExpression('time-range-start', 'today', now)).toBe('2025-06-18T00:00:00Z');
+      expect(parseTimeExpression('time-range-start', 'yesterday', now)).toBe('2025-06-17T00:00:00Z');
+      expect(parseTimeExpression('time-range-start', 'last-week', now)).toBe('2025-06-09T00:00:00Z');
+      expect(parseTimeExpression('time-range-start', 'last-month', now)).toBe('2025-05-01T00:00:00Z');
+    });
+
+    it('should start last-week on the previous Monday when today is Monday or Sunday', () => {
+      expect(parseTimeExpression('time-range-start', 'last-week', new Date('2025-06-16T08:00:00Z'))).toBe(
+        '2025-06-09T00:00:00Z'
+      );
+      expect(parseTimeExpression('time-range-start', 'last-week', new Date('2025-06-22T08:00:00Z'))).toBe(
+        '2025-06-09T00:00:00Z'
+      );
+    });
+
+    it('should resolve last-month across a year boundary', () => {
+      expect(parseTimeExpression('time-range-start', 'last-month', new Date('2025-01-15T00:00:00Z'))).toBe(
+        '2024-12-01T00:00:00Z'
+      );
+    });
+
+    it('should normalize absolute timestamps to UTC', () => {
+      expect(parseTimeExpression('time-range-start', '2025-01-01', now)).toBe('2025-01-01T00:00:00Z');
+      expect(parseTimeExpression('time-range-start', '2025-01-01T10:00:00+02:00', now)).toBe('2025-01-01T08:00:00Z');
+      expect(parseTimeExpression('time-range-start', '2025-01-01T10:00:00.250Z', now)).toBe(
+        '2025-01-01T10:00:00.250Z'
+      );
+    });
+
+    it('should resolve now', () => {
+      expect(parseTimeExpression('time-range-end', 'now', now)).toBe('2025-06-18T15:30:00Z');
+    });
+
+    it('should reject unknown expressions', () => {
+      expect(() => parseTimeExpression('time-range-start', 'last-fortnight', now)).toThrow(
+        'time-range-start must be an ISO 8601 timestamp or a relative expression (e.g. 7d, last-week, since-last-release), got "last-fortnight"'
+      );
+    });
+
+    it('should reject strings that only loosely parse as dates', () => {
+      for (const value of ['7', '1', 'foo 1', 'June 1']) {
+        expect(() => parseTimeExpression('time-range-start', value, now)).toThrow(
+          `time-range-start must be an ISO 8601 timestamp or a relative expression (e.g. 7d, last-week, since-last-release), got "${value}"`
+        );
+      }
+    });
+
+    it('should accept ISO 8601 dates and offsets', () => {
+      expect(parseTimeExpression('time-range-start', '2025-01-01', now)).toBe('2025-01-01T00:00:00Z');
+      expect(parseTimeExpression('time-range-start', '2025-01-01T09:00:00+02:00', now)).toBe('2025-01-01T07:00:00Z');
+    });
+
+    it('should reject since-last-release outside the start', () => {
+      expect(() => parseTimeExpression('time-range-end', 'since-last-release', now)).toThrow(
+        'time-range-end cannot be since-last-release'
+      );
+    });
+  });
+
+  describe('parseTimeRange', () => {
+    it('should default the end to now', () => {
+      expect(parseTimeRange('7d', '', now)).toEqual({ start: '2025-06-11T15:30:00Z', end: '2025-06-18T15:30:00Z' });
+    });
+
+    it('should resolve both ends', () => {
+      expect(parseTimeRange('last-month', 'last-week', now)).toEqual({
+        start: '2025-05-01T00:00:00Z',
+        end: '2025-06-09T00:00:00Z',
+      });
+    });
+
+    it('should keep since-last-release for later resolution', () => {
+      expect(parseTimeRange('since-last-release', '', now)).toEqual({
+        start: 'since-last-release',
+        end: '2025-06-18T15:30:00Z',
+      });
+    });
+
+    it('should reject a start that is not before the end', () => {
+      expect(() => parseTimeRange('2025-02-01T00:00:00Z', '2025-01-01T00:00:00Z', now)).toThrow(
+        'time-range-start (2025-02-01T00:00:00Z) must be before time-range-end (2025-01-01T00:00:00Z)'
+      );
+    });
+  });
+
+  describe('resolveTimeRange', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+      github.context.payload = {};
+      mockGetOctokit.mockReturnValue({
+        rest: {
+          repos: {
+            listReleases: mockListReleases,
+          },
+        },
+      } as any);
+    });
+
+    it('should return other changesets unchanged', async () => {
+      const changeset = { timeRangeStart: '2025-06-11T15:30:00Z', timeRangeEnd: '2025-06-18T15:30:00Z' };
+
+      expect(await resolveTimeRange(changeset, undefined)).toBe(changeset);
+      expect(mockGetOctokit).not.toHaveBeenCalled();
+    });
+
+    it('should start at the latest published release', async () => {
+      mockListReleases.mockResolvedValue({
+        data: [
+          { id: 4, draft: true, prerelease: false, published_at: null },
+          { id: 3, draft: false, prerelease: true, published_at: '2025-06-10T09:00:00Z' },
+          { id: 2, draft: false, prerelease: false, published_at: '2025-06-01T12:00:00Z' },
+        ],
+      });
+
+      const result = await resolveTimeRange(
+        { timeRangeStart: 'since-last-release', timeRangeEnd: '2025-06-18T15:30:00Z' },
+        'gh-token'
+      );
+
+      expect(result).toEqual({ timeRangeStart: '2025-06-01T12:00:00Z', timeRangeEnd: '2025-06-18T15:30:00Z' });
+      expect(mockGetOctokit).toHaveBeenCalledWith('gh-token');
+      expect(mockListReleases).toHaveBeenCalledWith({ owner: 'test-owner', repo: 'test-repo', per_page: 100 });
+    });
+
+    it('should skip the release that triggered the run', async () => {
+      github.context.payload = { release: { id: 2 } };
+      mockListReleases.mockResolvedValue({
+        data: [
+          { id: 2, draft: false, prerelease: false, published_at: '2025-06-18T12:00:00Z' },
+          { id: 1, draft: false, prerelease: false, published_at: '2025-05-01T12:00:00Z' },
+        ],
+      });
+
+      const result = await resolveTimeRange(
+        { timeRangeStart: 'since-last-release', timeRangeEnd: '2025-06-18T15:30:00Z' },
+        'gh-token'
+      );
+
+      expect(result.timeRangeStart).toBe('2025-05-01T12:00:00Z');
+    });
+
+    it('should throw when there is no earlier release', async () => {
+      mockListReleases.mockResolvedValue({ data: [] });
+
+      await expect(
+        resolveTimeRange({ timeRangeStart: 'since-last-release', timeRangeEnd: '2025-06-18T15:30:00Z' }, 'gh-token')
+      ).rejects.toThrow('time-range-start is since-last-release but no earlier published release was found');
+    });
+
+    it('should require a github token', async () => {
+      await expect(
+        resolveTimeRange({ timeRangeStart: 'since-last-release', timeRangeEnd: '2025-06-18T15:30:00Z' }, undefined)
+      ).rejects.toThrow('github-token is required when time-range-start is since-last-release');
+    });
+  });
+});
@@ -6,7 +6,8 @@ import {
   SmartDefaults,
   DocHolidayRequest,
   DocHolidayResponse,
-  ActionOutputs
+  ActionOutputs,
+  Change
 } from '../src/types';
 
 describe('TypeScript Type Definitions', () => {
@@ -84,13 +85,30 @@ describe('TypeScript Type Definitions', () => {
         title: 'Release v1.0.0',
         body: 'Release notes',
         eventType: 'release',
-        changes: [{ id: 1 }, { id: 2 }]
+        changes: [{ releases: { count: 1 } }, { commits: { count: 2 } }]
       };
       expect(defaults.eventType).toBe('release');
       expect(defaults.changes).toHaveLength(2);
     });
   });
 
+  describe('Change', () => {
+    it('should narrow on the change kind', () => {
+      const changes: Change[] = [
+        { timeRange: { start: '2025-01-01T00:00:00Z', end: '2025-01-31T23:59:59Z' } },
+        { commits: { startSha: 'abc123', endSha: 'def456', includeStartCommit: false } },
+        { tags: { start: 'v1.0.0' } }
+      ];
+      const kinds = changes.map(change => {
+        if ('commits' in change) {
+          return 'endSha' in change.commits ? `range ${change.commits.endSha}` : 'commits';
+        }
+        return 'tags' in change ? `tags ${change.tags.start}` : 'other';
+      });
+      expect(kinds).toEqual(['other', 'range def456', 'tags v1.0.0']);
+    });
+  });
+
   describe('DocHolidayRequest', () => {
     it('should compile with required fields', () => {
       const request: DocHolidayRequest = {
@@ -114,7 +132,7 @@ describe('TypeScript Type Definitions', () => {
           comments: ['Great work!'],
           relevantLinks: ['https://github.com'],
           eventType: 'release',
-          changes: [{ sha: 'abc123' }]
+          changes: [{ commits: { shas: ['abc123'] } }]
         }
       };
       expect(request.docRequest.eventType).toBe('release');
@@ -0,0 +1,82 @@
+// __tests__/workflow-runs.test.ts
+import * as github from '@actions/github';
+import { findLastSuccessfulRun } from '../src/workflow-runs';
+
+const mockGetWorkflowRun = jest.fn();
+const mockListWorkflowRuns = jest.fn();
+
+// Mock @actions/github
+jest.mock('@actions/github', () => ({
+  context: {
+    payload: {},
+    runId: 100,
+    repo: {
+      owner: 'test-owner',
+      repo: 'test-repo',
+    },
+  },
+  getOctokit: jest.fn(),
+}));
+
+const mockGetOctokit = github.getOctokit as jest.MockedFunction<typeof github.getOctokit>;
+
+describe('workflow-runs', () => {
+  describe('findLastSuccessfulRun', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockGetOctokit.mockReturnValue({
+        rest: {
+          actions: {
+            getWorkflowRun: mockGetWorkflowRun,
+            listWorkflowRuns: mockListWorkflowRuns,
+          },
+        },
+      } as any);
+      mockGetWorkflowRun.mockResolvedValue({
+        data: { id: 100, workflow_id: 7, head_branch: 'main', created_at: '2025-01-13T09:00:00Z' },
+      });
+    });
+
+    it('should return the latest successful run before the current one', async () => {
+      mockListWorkflowRuns.mockResolvedValue({
+        data: {
+          workflow_runs: [
+            { id: 100, head_sha: 'current', created_at: '2025-01-13T09:00:00Z' },
+            { id: 90, head_sha: 'previous', created_at: '2025-01-06T09:00:00Z' },
+            { id: 80, head_sha: 'older', created_at: '2024-12-30T09:00:00Z' },
+          ],
+        },
+      });
+
+      const result = await findLastSuccessfulRun('gh-token');
+
+      expect(result).toEqual({ id: 90, headSha: 'previous', createdAt: '2025-01-06T09:00:00Z' });
+      expect(mockGetOctokit).toHaveBeenCalledWith('gh-token');
+      expect(mockGetWorkflowRun).toHaveBeenCalledWith({ owner: 'test-owner', repo: 'test-repo', run_id: 100 });
+      expect(mockListWorkflowRuns).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        workflow_id: 7,
+        branch: 'main',
+        status: 'success',
+        per_page: 20,
+      });
+    });
+
+    it('should ignore runs created after the current one', async () => {
+      mockListWorkflowRuns.mockResolvedValue({
+        data: {
+          workflow_runs: [{ id: 110, head_sha: 'newer', created_at: '2025-01-14T09:00:00Z' }],
+        },
+      });
+
+      expect(await findLastSuccessfulRun('gh-token')).toBeUndefined();
+    });
+
+    it('should return undefined when the workflow has no successful runs', async () => {
+      mockListWorkflowRuns.mockResolvedValue({ data: { workflow_runs: [] } });
+
+      expect(await findLastSuccessfulRun('gh-token')).toBeUndefined();
+    });
+  });
+});
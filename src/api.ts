@@ -1,91 +1,240 @@
 // src/api.ts
 import * as core from '@actions/core';
-import { DocHolidayRequest, DocHolidayResponse } from './types';
+import { validateChanges } from './changes';
+import { ApiError, errorFromResponse, NetworkError, RateLimitError } from './errors';
+import {
+  DEFAULT_MAX_RETRIES,
+  DEFAULT_REQUEST_TIMEOUT,
+  fetchWithTimeout,
+  getRetryDelay,
+  isRetryableStatus,
+} from './retry';
+import {
+  CreateJobOptions,
+  DocHolidayJobResult,
+  DocHolidayRequest,
+  DocHolidayResponse,
+  WaitOptions,
+} from './types';
 
-const API_BASE_URL = 'https://api.doc.holiday';
-const MAX_RETRIES = 3;
-const INITIAL_RETRY_DELAY = 1000; // 1 second
+export const API_BASE_URL = 'https://api.doc.holiday';
+export const APP_BASE_URL = 'https://app.doc.holiday';
 
 /**
- * Create a doc.holiday job
+ * Create a doc.holiday job. Network errors, timeouts, 408, 429 and 5xx
+ * responses are retried; other errors fail immediately. With an idempotency
+ * key, a request the API has already seen (e.g. a retry after a timeout)
+ * returns the existing job instead of creating a duplicate.
  */
 export async function createJob(
   apiToken: string,
-  request: DocHolidayRequest
+  request: DocHolidayRequest,
+  apiUrl: string = API_BASE_URL,
+  options: CreateJobOptions = {}
 ): Promise<DocHolidayResponse> {
-  const url = `${API_BASE_URL}/api/v1/jobs`;
+  const url = `${apiUrl}/api/v1/jobs`;
 
-  let lastError: Error | null = null;
+  if (request.docRequest.changes) {
+    validateChanges(request.docRequest.changes);
+  }
 
-  for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-    try {
-      core.info(`Attempting to create job (attempt ${attempt}/${MAX_RETRIES})...`);
+  const attempts = (options.maxRetries ?? DEFAULT_MAX_RETRIES) + 1;
+  const timeout = options.requestTimeout ?? DEFAULT_REQUEST_TIMEOUT;
+  let lastError: ApiError | undefined;
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    core.info(`Attempting to create job (attempt ${attempt}/${attempts})...`);
 
-      const response = await fetch(url, {
+    let response: Response;
+    try {
+      response = await fetchWithTimeout(url, {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${apiToken}`,
           'Content-Type': 'application/json',
+          ...(options.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : {}),
         },
         body: JSON.stringify(request),
-      });
-
-      // Handle specific status codes
-      if (response.status === 401) {
-        throw new Error(
-          'Authentication failed. Please check your api-token. Ensure it is stored in GitHub secrets and passed correctly.'
-        );
-      }
-
-      if (response.status === 429) {
-        // Rate limited - retry with exponential backoff
-        const delay = INITIAL_RETRY_DELAY * Math.pow(2, attempt - 1);
-        core.warning(`Rate limited (429). Retrying in ${delay}ms...`);
+      }, timeout);
+    } catch (error) {
+      // Network failures and timeouts never reached the API, so retry them
+      lastError = new NetworkError(error instanceof Error ? error.message : 'An unknown error occurred');
+      if (attempt < attempts) {
+        const delay = getRetryDelay(attempt);
+        core.warning(`Request failed: ${lastError.message}. Retrying in ${delay}ms...`);
         await sleep(delay);
-        continue;
       }
+      continue;
+    }
+
+    if (response.status === 409 && options.idempotencyKey) {
+      const existing = await getExistingJob(apiToken, response, apiUrl);
+      core.info(`Job already exists for idempotency key ${options.idempotencyKey}: ${existing.id}`);
+      return existing;
+    }
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(
-          `Doc.holiday API error (${response.status}): ${errorText}`
+    if (isRetryableStatus(response.status)) {
+      lastError = await errorFromResponse(response);
+      if (attempt < attempts) {
+        const delay = getRetryDelay(attempt, response.headers.get('Retry-After'));
+        core.warning(
+          lastError instanceof RateLimitError
+            ? `Rate limited (429). Retrying in ${delay}ms...`
+            : `Request failed: ${lastError.message}. Retrying in ${delay}ms...`
         );
+        await sleep(delay);
       }
+      continue;
+    }
 
-      const data = await response.json() as DocHolidayResponse;
-      core.info(`Job created successfully: ${data.id}`);
-      return data;
-    } catch (error) {
-      lastError = error as Error;
+    if (!response.ok) {
+      throw await errorFromResponse(response);
+    }
 
-      // Don't retry on auth errors
-      if (lastError.message.includes('Authentication failed')) {
-        throw lastError;
-      }
+    const data = await response.json() as DocHolidayResponse;
+    core.info(`Job created successfully: ${data.id}`);
+    return data;
+  }
 
-      // Retry on network errors
-      if (attempt < MAX_RETRIES) {
-        const delay = INITIAL_RETRY_DELAY * Math.pow(2, attempt - 1);
-        core.warning(`Request failed: ${lastError.message}. Retrying in ${delay}ms...`);
-        await sleep(delay);
+  // Keep the type of the last failure so callers can tell rate limiting from outages
+  lastError!.message = `Failed to create job after ${attempts} attempts: ${lastError!.message}`;
+  throw lastError;
+}
+
+/**
+ * Read the existing job from a 409 response to an idempotent create. The body
+ * carries the job, or just its id, in which case the job is fetched.
+ */
+async function getExistingJob(apiToken: string, response: Response, apiUrl: string): Promise<DocHolidayResponse> {
+  const conflict = await errorFromResponse(response);
+  const body = conflict.body as { id?: string; state?: string; job?: DocHolidayResponse } | undefined;
+
+  const existing = body && typeof body === 'object' ? body.job ?? body : undefined;
+  if (!existing?.id) {
+    throw conflict;
+  }
+
+  return existing.state ? existing as DocHolidayResponse : getJob(apiToken, existing.id, apiUrl);
+}
+
+/**
+ * Fetch the current status of a doc.holiday job. Requests without a response
+ * within `timeout` milliseconds fail with a NetworkError.
+ */
+export async function getJob(
+  apiToken: string,
+  jobId: string,
+  apiUrl: string = API_BASE_URL,
+  timeout: number = DEFAULT_REQUEST_TIMEOUT
+): Promise<DocHolidayResponse> {
+  const url = `${apiUrl}/api/v1/jobs/${encodeURIComponent(jobId)}`;
+
+  let response: Response;
+  try {
+    response = await fetchWithTimeout(url, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${apiToken}`,
+      },
+    }, timeout);
+  } catch (error) {
+    throw new NetworkError(error instanceof Error ? error.message : 'An unknown error occurred');
+  }
+
+  if (!response.ok) {
+    throw await errorFromResponse(response);
+  }
+
+  return await response.json() as DocHolidayResponse;
+}
+
+/**
+ * Fetch the generated output of a finished doc.holiday job
+ */
+export async function getJobResult(
+  apiToken: string,
+  jobId: string,
+  apiUrl: string = API_BASE_URL,
+  timeout: number = DEFAULT_REQUEST_TIMEOUT
+): Promise<DocHolidayJobResult> {
+  const url = `${apiUrl}/api/v1/jobs/${encodeURIComponent(jobId)}/result`;
+
+  let response: Response;
+  try {
+    response = await fetchWithTimeout(url, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${apiToken}`,
+      },
+    }, timeout);
+  } catch (error) {
+    throw new NetworkError(error instanceof Error ? error.message : 'An unknown error occurred');
+  }
+
+  if (!response.ok) {
+    throw await errorFromResponse(response);
+  }
+
+  return await response.json() as DocHolidayJobResult;
+}
+
+/**
+ * Poll a job until it reaches a terminal state (done or errored). Network
+ * errors and retryable responses while polling are logged and polled again
+ * until the deadline; other errors end the wait.
+ */
+export async function waitForJob(
+  apiToken: string,
+  jobId: string,
+  options: WaitOptions,
+  apiUrl: string = API_BASE_URL
+): Promise<DocHolidayResponse> {
+  const deadline = Date.now() + options.timeout;
+  let lastState = 'unknown';
+
+  for (;;) {
+    // A hung status request must not outlast the wait timeout
+    const requestTimeout = Math.max(Math.min(DEFAULT_REQUEST_TIMEOUT, deadline - Date.now()), 1);
+
+    try {
+      const job = await getJob(apiToken, jobId, apiUrl, requestTimeout);
+      core.info(`Job ${jobId} state: ${job.state}`);
+
+      if (job.state === 'done' || job.state === 'errored') {
+        return job;
+      }
+      lastState = job.state;
+    } catch (error) {
+      if (!isTransientError(error)) {
+        throw error;
       }
+      core.warning(`Failed to check job ${jobId} status, polling again: ${(error as Error).message}`);
     }
+
+    if (Date.now() + options.pollInterval > deadline) {
+      throw new Error(
+        `Timed out after ${options.timeout / 1000}s waiting for job ${jobId} to complete (last state: ${lastState})`
+      );
+    }
+
+    await sleep(options.pollInterval);
   }
+}
 
-  throw new Error(
-    `Failed to create job after ${MAX_RETRIES} attempts: ${lastError?.message}`
-  );
+function isTransientError(error: unknown): boolean {
+  return error instanceof NetworkError
+    || (error instanceof ApiError && error.status !== undefined && isRetryableStatus(error.status));
 }
 
 /**
  * Construct job URL for doc.holiday UI
  */
-export function constructJobUrl(jobId: string): string {
-  return `https://app.doc.holiday/jobs/${jobId}`;
+export function constructJobUrl(jobId: string, appUrl: string = APP_BASE_URL): string {
+  return `${appUrl}/jobs/${jobId}`;
 }
 
 /**
- * Sleep utility for retry delays
+ * Sleep utility for retry delays and polling
  */
 function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
@@ -1,64 +1,243 @@
 // src/changes.ts
-import { ChangesetInput } from './types';
+import { Change, ChangesetInput, TagsChange } from './types';
+
+const CHANGE_KINDS = ['releases', 'timeRange', 'commits', 'tags'];
+
+// Date.parse accepts almost anything ("7", "foo 1"), so check the shape first
+const ISO_8601_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+// Allowed field sets for each commits form
+const COMMITS_FORMS = [
+  { required: ['count'], optional: [] },
+  { required: ['shas'], optional: [] },
+  { required: ['startSha', 'endSha'], optional: ['includeStartCommit'] },
+  { required: ['startSha'], optional: [] },
+];
 
 /**
- * Build changes array for doc.holiday API from changeset inputs
+ * Build changes array for doc.holiday API from changeset inputs. Every
+ * specified changeset type contributes a change, followed by any explicit
+ * changes list; duplicates are dropped and the result is validated.
  */
-export function buildChanges(changeset: ChangesetInput): any[] {
+export function buildChanges(changeset: ChangesetInput): Change[] {
+  const changes: Change[] = [];
+
   // Releases count
   if (changeset.releasesCount !== undefined) {
-    return [{ releases: { count: changeset.releasesCount } }];
+    changes.push({ releases: { count: changeset.releasesCount } });
   }
 
   // Time range
   if (changeset.timeRangeStart && changeset.timeRangeEnd) {
-    return [
-      {
-        timeRange: {
-          start: changeset.timeRangeStart,
-          end: changeset.timeRangeEnd,
-        },
+    changes.push({
+      timeRange: {
+        start: changeset.timeRangeStart,
+        end: changeset.timeRangeEnd,
       },
-    ];
+    });
   }
 
   // Commits count
   if (changeset.commitsCount !== undefined) {
-    return [{ commits: { count: changeset.commitsCount } }];
+    changes.push({ commits: { count: changeset.commitsCount } });
   }
 
   // Commits since SHA
   if (changeset.commitsSinceSha) {
-    return [{ commits: { startSha: changeset.commitsSinceSha } }];
+    changes.push({ commits: { startSha: changeset.commitsSinceSha } });
   }
 
   // Specific commits (SHAs)
   if (changeset.commitsShas && changeset.commitsShas.length > 0) {
-    return [{ commits: { shas: changeset.commitsShas } }];
+    changes.push({ commits: { shas: changeset.commitsShas } });
   }
 
   // Commit range
   if (changeset.commitsStartSha && changeset.commitsEndSha) {
-    return [
-      {
-        commits: {
-          startSha: changeset.commitsStartSha,
-          endSha: changeset.commitsEndSha,
-          includeStartCommit: changeset.commitsIncludeStart ?? true,
-        },
+    changes.push({
+      commits: {
+        startSha: changeset.commitsStartSha,
+        endSha: changeset.commitsEndSha,
+        includeStartCommit: changeset.commitsIncludeStart ?? true,
       },
-    ];
+    });
   }
 
   // Tags
   if (changeset.tagsStart) {
-    const tagsChange: any = { tags: { start: changeset.tagsStart } };
+    const tagsChange: TagsChange = { tags: { start: changeset.tagsStart } };
     if (changeset.tagsEnd) {
       tagsChange.tags.end = changeset.tagsEnd;
     }
-    return [tagsChange];
+    changes.push(tagsChange);
+  }
+
+  // Explicit changes list
+  if (changeset.changes) {
+    changes.push(...changeset.changes);
+  }
+
+  const unique = dedupeChanges(changes);
+  validateChanges(unique);
+  return unique;
+}
+
+/**
+ * Drop repeated changes, comparing them independent of field order
+ */
+function dedupeChanges(changes: Change[]): Change[] {
+  const seen = new Set<string>();
+
+  return changes.filter(change => {
+    const key = canonicalJson(change);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Check every change object before it is sent, so malformed changes (e.g. a
+ * misspelled field) fail with a clear message instead of an API error
+ */
+export function validateChanges(changes: unknown[]): asserts changes is Change[] {
+  changes.forEach((change, index) => {
+    const error = describeInvalidChange(change);
+    if (error) {
+      throw new Error(`Invalid change at index ${index}: ${error}`);
+    }
+  });
+}
+
+/**
+ * Whether a value is an ISO 8601 date or timestamp that Date.parse can read
+ */
+export function isIsoTimestamp(value: string): boolean {
+  return ISO_8601_PATTERN.test(value) && !isNaN(Date.parse(value));
+}
+
+function describeInvalidChange(change: unknown): string | undefined {
+  if (!isObject(change)) {
+    return 'must be an object';
+  }
+
+  const keys = Object.keys(change);
+  if (keys.length !== 1 || !CHANGE_KINDS.includes(keys[0])) {
+    return `must have exactly one of ${CHANGE_KINDS.join(', ')}, got ${keys.join(', ') || 'no fields'}`;
+  }
+
+  const kind = keys[0];
+  const value = change[kind];
+  if (!isObject(value)) {
+    return `${kind} must be an object`;
+  }
+
+  if (kind === 'releases') {
+    return checkFields(kind, value, ['count'], []) ?? checkCount(kind, value.count);
+  }
+
+  if (kind === 'timeRange') {
+    return (
+      checkFields(kind, value, ['start', 'end'], []) ??
+      checkTimestamp(kind, 'start', value.start) ??
+      checkTimestamp(kind, 'end', value.end)
+    );
   }
 
-  // No valid changeset
-  return [];
+  if (kind === 'tags') {
+    return (
+      checkFields(kind, value, ['start'], ['end']) ??
+      checkString(kind, 'start', value.start) ??
+      (value.end === undefined ? undefined : checkString(kind, 'end', value.end))
+    );
+  }
+
+  return describeInvalidCommits(value);
+}
+
+function describeInvalidCommits(value: Record<string, unknown>): string | undefined {
+  const keys = Object.keys(value);
+  const form = COMMITS_FORMS.find(candidate =>
+    candidate.required.every(key => keys.includes(key)) &&
+    keys.every(key => candidate.required.includes(key) || candidate.optional.includes(key))
+  );
+
+  if (!form) {
+    return `commits must have count, shas, startSha, or startSha and endSha (with optional includeStartCommit), got ${keys.join(', ') || 'no fields'}`;
+  }
+
+  if (form.required.includes('count')) {
+    return checkCount('commits', value.count);
+  }
+
+  if (form.required.includes('shas')) {
+    const shas = value.shas;
+    if (!Array.isArray(shas) || shas.length === 0 || !shas.every(sha => typeof sha === 'string' && sha)) {
+      return 'commits.shas must be a non-empty list of SHAs';
+    }
+    return undefined;
+  }
+
+  if (value.includeStartCommit !== undefined && typeof value.includeStartCommit !== 'boolean') {
+    return 'commits.includeStartCommit must be a boolean';
+  }
+
+  return (
+    checkString('commits', 'startSha', value.startSha) ??
+    (value.endSha === undefined ? undefined : checkString('commits', 'endSha', value.endSha))
+  );
+}
+
+function checkFields(
+  kind: string,
+  value: Record<string, unknown>,
+  required: string[],
+  optional: string[]
+): string | undefined {
+  const unknown = Object.keys(value).filter(key => !required.includes(key) && !optional.includes(key));
+  if (unknown.length > 0) {
+    return `${kind} has unknown fields: ${unknown.join(', ')}`;
+  }
+
+  const missing = required.filter(key => value[key] === undefined);
+  if (missing.length > 0) {
+    return `${kind} is missing ${missing.join(', ')}`;
+  }
+
+  return undefined;
+}
+
+function checkCount(kind: string, count: unknown): string | undefined {
+  return typeof count === 'number' && Number.isInteger(count) && count > 0
+    ? undefined
+    : `${kind}.count must be a positive integer, got ${JSON.stringify(count)}`;
+}
+
+function checkString(kind: string, field: string, value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim()
+    ? undefined
+    : `${kind}.${field} must be a non-empty string`;
+}
+
+function checkTimestamp(kind: string, field: string, value: unknown): string | undefined {
+  return typeof value === 'string' && isIsoTimestamp(value)
+    ? undefined
+    : `${kind}.${field} must be an ISO 8601 timestamp, got ${JSON.stringify(value)}`;
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (isObject(value)) {
+    const fields = Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
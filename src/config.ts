@@ -0,0 +1,146 @@
+// src/config.ts
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse } from 'yaml';
+import { parseChangesetInputs } from './inputs';
+import { ChangesetInput, JobConfig } from './types';
+
+const JOB_FIELDS = [
+  'title',
+  'body',
+  'publications',
+  'source-connection',
+  'labels',
+  'comments',
+  'relevant-links',
+];
+
+export const CHANGESET_FIELDS = [
+  'releases-count',
+  'time-range-start',
+  'time-range-end',
+  'commits-count',
+  'commits-since-sha',
+  'commits-shas',
+  'commits-start-sha',
+  'commits-end-sha',
+  'commits-include-start',
+  'tags-start',
+  'tags-end',
+  'commits-range',
+  'tags-range',
+  'changes',
+  'allow-multiple-changesets',
+];
+
+/**
+ * Load and validate batch job definitions from a YAML or JSON config file.
+ *
+ * The file declares named jobs under a top-level `jobs` mapping. Each job
+ * accepts the same keys as the action's manual-mode and changeset inputs.
+ */
+export function loadJobsConfig(configFile: string): JobConfig[] {
+  const workspace = process.env.GITHUB_WORKSPACE || process.cwd();
+  const configPath = path.resolve(workspace, configFile);
+
+  if (!fs.existsSync(configPath)) {
+    throw new Error(`Config file not found: ${configFile}`);
+  }
+
+  let config: unknown;
+  try {
+    config = parse(fs.readFileSync(configPath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to parse config file ${configFile}: ${(error as Error).message}`);
+  }
+
+  if (!isRecord(config) || !isRecord(config.jobs)) {
+    throw new Error(`Config file ${configFile} must define a "jobs" mapping of named jobs`);
+  }
+
+  const jobs = config.jobs;
+  const names = Object.keys(jobs);
+  if (names.length === 0) {
+    throw new Error(`Config file ${configFile} does not define any jobs`);
+  }
+
+  return names.map(name => parseJob(name, jobs[name]));
+}
+
+/**
+ * Validate a single job entry and convert it to a JobConfig
+ */
+function parseJob(name: string, entry: unknown): JobConfig {
+  if (!isRecord(entry)) {
+    throw new Error(`Job "${name}" must be a mapping of job fields`);
+  }
+
+  const unknownKeys = Object.keys(entry).filter(
+    key => !JOB_FIELDS.includes(key) && !CHANGESET_FIELDS.includes(key)
+  );
+  if (unknownKeys.length > 0) {
+    throw new Error(`Job "${name}" has unknown fields: ${unknownKeys.join(', ')}`);
+  }
+
+  const title = toText(entry.title);
+  const body = toText(entry.body);
+
+  if (!title) {
+    throw new Error(`Job "${name}" is missing a title`);
+  }
+  if (!body) {
+    throw new Error(`Job "${name}" is missing a body`);
+  }
+
+  let changeset: ChangesetInput | undefined;
+  try {
+    changeset = parseChangesetInputs(field => toText(entry[field], ','));
+  } catch (error) {
+    throw new Error(`Job "${name}": ${(error as Error).message}`);
+  }
+
+  return {
+    name,
+    title,
+    body,
+    publications: toList(entry.publications, ','),
+    sourceConnection: toText(entry['source-connection']) || undefined,
+    labels: toList(entry.labels, ','),
+    comments: toList(entry.comments, '\n'),
+    relevantLinks: toList(entry['relevant-links'], ','),
+    changeset,
+  };
+}
+
+/**
+ * Convert a scalar or list config value to the string form used by action
+ * inputs. Structured values (such as a changes list) become JSON.
+ */
+export function toText(value: unknown, separator = '\n'): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (isRecord(value) || (Array.isArray(value) && value.some(item => typeof item === 'object' && item !== null))) {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => String(item)).join(separator);
+  }
+  return String(value).trim();
+}
+
+/**
+ * Convert a list or separator-delimited string config value to an array
+ */
+export function toList(value: unknown, separator: string): string[] | undefined {
+  const items = Array.isArray(value)
+    ? value.map(item => String(item).trim())
+    : toText(value).split(separator).map(item => item.trim());
+
+  const filtered = items.filter(Boolean);
+  return filtered.length > 0 ? filtered : undefined;
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,160 @@
+// src/directives.ts
+import * as core from '@actions/core';
+import { parse } from 'yaml';
+import { CHANGESET_FIELDS, isRecord, toList, toText } from './config';
+import { parseChangesetInputs } from './inputs';
+import { BodyDirectives, ChangesetInput } from './types';
+
+const DIRECTIVE_FIELDS = ['publications', 'labels', 'comments', 'skip'];
+
+// <!-- doc-holiday: publications=api-docs; skip=false -->
+// The space after the colon keeps release section markers such as
+// <!-- doc-holiday:start --> from being read as directives.
+const COMMENT_DIRECTIVE_PATTERN = /<!--\s*doc-holiday:\s+([\s\S]*?)\s*-->/g;
+
+// ```doc-holiday
+// publications: [api-docs]
+// ```
+const FENCE_DIRECTIVE_PATTERN = /^```doc-holiday[ \t]*\r?\n([\s\S]*?)^```[ \t]*$/gm;
+
+const HTML_COMMENT_PATTERN = /<!--[\s\S]*?-->/g;
+const TASK_LIST_ITEM_PATTERN = /^\s*[-*+] \[[ xX]\].*$/gm;
+const HEADING_PATTERN = /^(#{1,6})\s/;
+
+/**
+ * Extract doc-holiday directives from a PR or release body and return the body
+ * with the directive blocks and common PR-template noise removed
+ */
+export function parseBodyDirectives(body: string): { body: string; directives?: BodyDirectives } {
+  const fields: Record<string, unknown> = {};
+
+  for (const match of body.matchAll(COMMENT_DIRECTIVE_PATTERN)) {
+    const commentFields = parseCommentFields(match[1]);
+    if (commentFields) {
+      Object.assign(fields, commentFields);
+    } else {
+      core.warning(`Ignoring doc-holiday comment that is not "key=value" pairs: ${match[0]}`);
+    }
+  }
+
+  for (const match of body.matchAll(FENCE_DIRECTIVE_PATTERN)) {
+    Object.assign(fields, parseFenceFields(match[1]));
+  }
+
+  const withoutDirectives = body.replace(COMMENT_DIRECTIVE_PATTERN, '').replace(FENCE_DIRECTIVE_PATTERN, '');
+  // A body that is nothing but template noise is still sent as written
+  const cleaned = stripTemplateNoise(withoutDirectives) || withoutDirectives.trim();
+
+  if (Object.keys(fields).length === 0) {
+    return { body: cleaned };
+  }
+
+  return { body: cleaned, directives: toDirectives(fields) };
+}
+
+/**
+ * Remove HTML comments (template instructions), task list checklists and
+ * headings left without content, then collapse blank lines. Returns an empty
+ * string when nothing but noise remains.
+ */
+export function stripTemplateNoise(body: string): string {
+  const lines = body
+    .replace(HTML_COMMENT_PATTERN, '')
+    .replace(TASK_LIST_ITEM_PATTERN, '')
+    .split(/\r?\n/)
+    .map(line => line.trimEnd());
+
+  // A heading is empty when nothing but blank lines and subheadings follow
+  // it before the next heading of the same or a higher level
+  const kept = lines.filter((line, index) => {
+    const level = headingLevel(line);
+    if (level === undefined) {
+      return true;
+    }
+    for (const next of lines.slice(index + 1)) {
+      const nextLevel = headingLevel(next);
+      if (nextLevel !== undefined && nextLevel <= level) {
+        return false;
+      }
+      if (nextLevel === undefined && next.trim() !== '') {
+        return true;
+      }
+    }
+    return false;
+  });
+
+  return kept.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+function headingLevel(line: string): number | undefined {
+  const match = HEADING_PATTERN.exec(line);
+  return match ? match[1].length : undefined;
+}
+
+/**
+ * Parse "key=value; key=value" pairs from an HTML comment directive. Returns
+ * undefined for free-text comments such as <!-- doc-holiday: see docs team -->.
+ */
+function parseCommentFields(content: string): Record<string, string> | undefined {
+  const fields: Record<string, string> = {};
+
+  for (const pair of content.split(/[;\n]/).map(part => part.trim()).filter(Boolean)) {
+    const separator = pair.indexOf('=');
+    if (separator === -1) {
+      return undefined;
+    }
+    fields[pair.substring(0, separator).trim()] = pair.substring(separator + 1).trim();
+  }
+
+  return fields;
+}
+
+/**
+ * Parse the YAML mapping of a fenced doc-holiday block
+ */
+function parseFenceFields(content: string): Record<string, unknown> {
+  let fields: unknown;
+  try {
+    fields = parse(content);
+  } catch (error) {
+    throw new Error(`Failed to parse doc-holiday block: ${(error as Error).message}`);
+  }
+
+  if (!isRecord(fields)) {
+    throw new Error('doc-holiday block must be a YAML mapping');
+  }
+
+  return fields;
+}
+
+/**
+ * Validate directive fields, which use the same names as the action inputs
+ */
+function toDirectives(fields: Record<string, unknown>): BodyDirectives {
+  const unknownKeys = Object.keys(fields).filter(
+    key => !DIRECTIVE_FIELDS.includes(key) && !CHANGESET_FIELDS.includes(key)
+  );
+  if (unknownKeys.length > 0) {
+    throw new Error(`doc-holiday directive has unknown fields: ${unknownKeys.join(', ')}`);
+  }
+
+  const skip = toText(fields.skip);
+  if (skip && skip !== 'true' && skip !== 'false') {
+    throw new Error(`doc-holiday directive skip must be true or false, got "${skip}"`);
+  }
+
+  let changeset: ChangesetInput | undefined;
+  try {
+    changeset = parseChangesetInputs(field => toText(fields[field], ','));
+  } catch (error) {
+    throw new Error(`doc-holiday directive: ${(error as Error).message}`);
+  }
+
+  return {
+    publications: toList(fields.publications, ','),
+    labels: toList(fields.labels, ','),
+    comments: toList(fields.comments, '\n'),
+    changeset,
+    skip: skip ? skip === 'true' : undefined,
+  };
+}
@@ -0,0 +1,120 @@
+// src/enrichment.ts
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import { PullRequestContext } from './types';
+
+const MAX_LINKED_ISSUES = 5;
+const MAX_REVIEW_COMMENTS = 10;
+const MAX_COMMENT_LENGTH = 300;
+
+// "Fixes #12", "closes owner/repo#34", "Resolved: #5"
+const CLOSING_KEYWORD_PATTERN =
+  /\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?):?\s+(?:([\w.-]+)\/([\w.-]+))?#(\d+)\b/gi;
+
+/**
+ * Collect the PR author, reviewers, labels, milestone, linked issues and a
+ * capped sample of review comments as request links and comments
+ */
+export async function collectPullRequestContext(
+  token: string,
+  prNumber: number
+): Promise<PullRequestContext> {
+  const octokit = github.getOctokit(token);
+  const { owner, repo } = github.context.repo;
+
+  const { data: pr } = await octokit.rest.pulls.get({ owner, repo, pull_number: prNumber });
+  const { data: reviews } = await octokit.rest.pulls.listReviews({
+    owner,
+    repo,
+    pull_number: prNumber,
+    per_page: 100,
+  });
+  const { data: reviewComments } = await octokit.rest.pulls.listReviewComments({
+    owner,
+    repo,
+    pull_number: prNumber,
+    per_page: MAX_REVIEW_COMMENTS,
+  });
+
+  const relevantLinks = [pr.html_url];
+  const comments = [`PR author: @${pr.user.login}`];
+
+  const reviewers = describeReviewers(reviews);
+  if (reviewers.length > 0) {
+    comments.push(`Reviewers: ${reviewers.join(', ')}`);
+  }
+
+  const labels = pr.labels.map(label => label.name);
+  if (labels.length > 0) {
+    comments.push(`Labels: ${labels.join(', ')}`);
+  }
+
+  if (pr.milestone) {
+    comments.push(`Milestone: ${pr.milestone.title}`);
+  }
+
+  for (const issue of findLinkedIssues(pr.body || '', owner, repo)) {
+    // A mistyped number or an issue the token cannot see should not drop the rest of the context
+    try {
+      const { data } = await octokit.rest.issues.get({
+        owner: issue.owner,
+        repo: issue.repo,
+        issue_number: issue.number,
+      });
+      relevantLinks.push(data.html_url);
+      comments.push(truncate(`Linked issue #${issue.number}: ${data.title}`));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'An unknown error occurred';
+      core.warning(`Skipping linked issue ${issue.owner}/${issue.repo}#${issue.number}: ${message}`);
+    }
+  }
+
+  for (const comment of reviewComments.slice(0, MAX_REVIEW_COMMENTS)) {
+    const author = comment.user ? `@${comment.user.login}` : 'a reviewer';
+    comments.push(truncate(`Review comment by ${author} on ${comment.path}: ${collapse(comment.body)}`));
+  }
+
+  return { relevantLinks, comments };
+}
+
+/**
+ * Find issues closed by the PR through closing keywords, up to the cap
+ */
+export function findLinkedIssues(
+  body: string,
+  owner: string,
+  repo: string
+): Array<{ owner: string; repo: string; number: number }> {
+  const issues = new Map<string, { owner: string; repo: string; number: number }>();
+
+  for (const match of body.matchAll(CLOSING_KEYWORD_PATTERN)) {
+    const issue = { owner: match[1] || owner, repo: match[2] || repo, number: Number(match[3]) };
+    issues.set(`${issue.owner}/${issue.repo}#${issue.number}`, issue);
+  }
+
+  return Array.from(issues.values()).slice(0, MAX_LINKED_ISSUES);
+}
+
+/**
+ * List each reviewer once with their latest review state
+ */
+function describeReviewers(reviews: Array<{ user: { login: string } | null; state: string }>): string[] {
+  const states = new Map<string, string>();
+
+  for (const review of reviews) {
+    // Plain comments do not change a reviewer's verdict
+    if (review.user && (review.state !== 'COMMENTED' || !states.has(review.user.login))) {
+      states.set(review.user.login, review.state.toLowerCase().replace(/_/g, ' '));
+    }
+  }
+
+  return Array.from(states, ([login, state]) => `@${login} (${state})`);
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_COMMENT_LENGTH ? `${text.substring(0, MAX_COMMENT_LENGTH - 1)}…` : text;
+}
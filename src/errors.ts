@@ -0,0 +1,126 @@
+// src/errors.ts
+
+/**
+ * Failure categories reported through the error-code output
+ */
+export type ApiErrorCode = 'auth' | 'validation' | 'rate-limit' | 'server' | 'network';
+
+export interface ApiErrorDetails {
+  status?: number;
+  body?: unknown; // parsed JSON when the API returned it, otherwise the raw text
+  requestId?: string;
+}
+
+/**
+ * Base class for failed doc.holiday API requests
+ */
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status?: number;
+  readonly body?: unknown;
+  readonly requestId?: string;
+
+  constructor(code: ApiErrorCode, message: string, details: ApiErrorDetails = {}) {
+    super(details.requestId ? `${message} (request id: ${details.requestId})` : message);
+    this.name = new.target.name;
+    this.code = code;
+    this.status = details.status;
+    this.body = details.body;
+    this.requestId = details.requestId;
+  }
+}
+
+/**
+ * The API token was missing, invalid or lacks access (401, 403)
+ */
+export class AuthError extends ApiError {
+  constructor(message: string, details?: ApiErrorDetails) {
+    super('auth', message, details);
+  }
+}
+
+/**
+ * The API rejected the request itself, e.g. malformed changes (4xx)
+ */
+export class ValidationError extends ApiError {
+  constructor(message: string, details?: ApiErrorDetails) {
+    super('validation', message, details);
+  }
+}
+
+/**
+ * Too many requests (429)
+ */
+export class RateLimitError extends ApiError {
+  constructor(message: string, details?: ApiErrorDetails) {
+    super('rate-limit', message, details);
+  }
+}
+
+/**
+ * The API failed or timed out while handling the request (408, 5xx)
+ */
+export class ServerError extends ApiError {
+  constructor(message: string, details?: ApiErrorDetails) {
+    super('server', message, details);
+  }
+}
+
+/**
+ * No response arrived: DNS, connection or request timeout failures
+ */
+export class NetworkError extends ApiError {
+  constructor(message: string) {
+    super('network', message);
+  }
+}
+
+const AUTH_MESSAGE =
+  'Authentication failed. Please check your api-token. Ensure it is stored in GitHub secrets and passed correctly.';
+
+/**
+ * Build the error for a failed API response, reading its body and request id
+ */
+export async function errorFromResponse(response: Response): Promise<ApiError> {
+  return createApiError(response.status, await response.text(), response.headers.get('X-Request-Id') ?? undefined);
+}
+
+/**
+ * Build the error for a failed API response from its status and body text
+ */
+export function createApiError(status: number, text: string, requestId?: string): ApiError {
+  const body = parseBody(text);
+  const details = { status, body, requestId: requestId ?? bodyRequestId(body) };
+
+  if (status === 401) {
+    return new AuthError(AUTH_MESSAGE, details);
+  }
+  if (status === 403) {
+    return new AuthError(`Doc.holiday API error (403): ${text}`, details);
+  }
+  if (status === 429) {
+    return new RateLimitError('Rate limited (429). Space out workflow runs or raise max-retries.', details);
+  }
+  if (status === 408 || status >= 500) {
+    return new ServerError(`Doc.holiday API error (${status}): ${text}`, details);
+  }
+  return new ValidationError(`Doc.holiday API error (${status}): ${text}`, details);
+}
+
+function parseBody(text: string): unknown {
+  if (!text) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function bodyRequestId(body: unknown): string | undefined {
+  if (body && typeof body === 'object' && 'requestId' in body && typeof body.requestId === 'string') {
+    return body.requestId;
+  }
+  return undefined;
+}
@@ -1,17 +1,43 @@
 // src/github-context.ts
 import * as github from '@actions/github';
-import { SmartDefaults } from './types';
+import { buildChanges, isIsoTimestamp } from './changes';
+import { parseBodyDirectives } from './directives';
+import { parseChangesetInputs } from './inputs';
+import { findPreviousTag } from './tags';
+import { BodyDirectives, ChangesetInput, ChangeWindow, SmartDefaults, SmartEventType } from './types';
+import { findLastSuccessfulRun } from './workflow-runs';
+
+const ZERO_SHA = '0000000000000000000000000000000000000000';
+const SHA_PATTERN = /^[0-9a-f]{7,40}$/i;
+const SCHEDULE_TITLE = 'Scheduled documentation update';
+const PREVIEW_ACTIONS = ['opened', 'synchronize', 'reopened'];
+const PREVIEW_LABEL = 'preview';
+const MAX_BODY_COMMITS = 20;
 
 /**
  * Generate smart defaults based on GitHub event context
  */
-export function getSmartDefaults(eventType: 'release' | 'merge'): SmartDefaults {
+export async function getSmartDefaults(
+  eventType: SmartEventType,
+  githubToken?: string,
+  scheduleSince?: string
+): Promise<SmartDefaults> {
   const context = github.context;
 
   if (eventType === 'release') {
     return getReleaseDefaults(context);
   } else if (eventType === 'merge') {
     return getMergeDefaults(context);
+  } else if (eventType === 'pull-request') {
+    return getPullRequestDefaults(context);
+  } else if (eventType === 'push') {
+    return getPushDefaults(context);
+  } else if (eventType === 'tag') {
+    return getTagDefaults(context, githubToken);
+  } else if (eventType === 'dispatch') {
+    return getDispatchDefaults(context);
+  } else if (eventType === 'schedule') {
+    return getScheduleDefaults(context, githubToken, scheduleSince);
   }
 
   throw new Error(`Unsupported event type: ${eventType}`);
@@ -28,13 +54,16 @@ function getReleaseDefaults(context: typeof github.context): SmartDefaults {
   }
 
   const tagName = release.tag_name;
-  const body = release.body || '';
+  const { body, directives } = parseBodyDirectives(release.body || '');
 
   return {
     title: `Release notes for ${tagName}`,
     body,
     eventType: 'release',
     changes: [{ releases: { count: 1 } }],
+    releaseId: release.id,
+    directives,
+    skipReason: directiveSkipReason(directives, 'release'),
   };
 }
 
@@ -54,12 +83,15 @@ function getMergeDefaults(context: typeof github.context): SmartDefaults {
 
   const prNumber = pr.number;
   const prTitle = pr.title;
-  const body = pr.body || '';
+  const { body, directives } = parseBodyDirectives(pr.body || '');
 
   // Extract PR commit range for changeset
   const baseSha = pr.base?.sha;
   const headSha = pr.head?.sha;
 
+  // Labels drive gating and publication routing
+  const labels: string[] = (pr.labels ?? []).map((label: { name: string }) => label.name);
+
   return {
     title: `Documentation for PR #${prNumber}: ${prTitle}`,
     body,
@@ -67,9 +99,287 @@ function getMergeDefaults(context: typeof github.context): SmartDefaults {
     changes: baseSha && headSha
       ? [{ commits: { startSha: baseSha, endSha: headSha, includeStartCommit: true } }]
       : undefined,
+    pullRequestNumber: prNumber,
+    pullRequestLabels: labels.length > 0 ? labels : undefined,
+    directives,
+    skipReason: directiveSkipReason(directives, 'pull request'),
+  };
+}
+
+/**
+ * Extract preview defaults from an open pull request. The base..head range is
+ * sent with a preview label while the PR is still under review.
+ */
+function getPullRequestDefaults(context: typeof github.context): SmartDefaults {
+  const pr = context.payload.pull_request;
+
+  if (!pr) {
+    throw new Error('No pull request data found in event payload. Is this a PR event?');
+  }
+
+  const title = `Documentation preview for PR #${pr.number}: ${pr.title}`;
+  const action = context.payload.action;
+
+  if (!action || !PREVIEW_ACTIONS.includes(action)) {
+    return {
+      title,
+      body: '',
+      skipReason: `pull request action "${action}" does not trigger a preview (expected ${PREVIEW_ACTIONS.join(', ')})`,
+    };
+  }
+
+  const baseSha = pr.base?.sha;
+  const headSha = pr.head?.sha;
+
+  if (!baseSha || !headSha) {
+    throw new Error('Pull request payload is missing base or head commit SHAs');
+  }
+
+  const { body, directives } = parseBodyDirectives(pr.body || '');
+
+  return {
+    title,
+    body,
+    changes: [{ commits: { startSha: baseSha, endSha: headSha, includeStartCommit: false } }],
+    labels: [PREVIEW_LABEL],
+    pullRequestNumber: pr.number,
+    headSha,
+    directives,
+    skipReason: directiveSkipReason(directives, 'pull request'),
+  };
+}
+
+/**
+ * Extract defaults from push event
+ */
+function getPushDefaults(context: typeof github.context): SmartDefaults {
+  const payload = context.payload;
+
+  if (!payload.ref || payload.after === undefined) {
+    throw new Error('No push data found in event payload. Is this a push event?');
+  }
+
+  const ref: string = payload.ref;
+  if (!ref.startsWith('refs/heads/')) {
+    throw new Error(`Push to ${ref} is not a branch push. Use event-type: tag for tag pushes.`);
+  }
+
+  const branch = ref.slice('refs/heads/'.length);
+  const title = `Documentation for push to ${branch}`;
+
+  if (payload.deleted || payload.after === ZERO_SHA) {
+    return { title, body: '', skipReason: `branch ${branch} was deleted` };
+  }
+
+  const commits: Array<{ id: string; message: string }> = payload.commits || [];
+  const body = buildPushBody(branch, commits);
+
+  // A zero "before" SHA means a new branch: there is no previous tip to diff from,
+  // so fall back to the commits listed in the payload
+  if (!payload.before || payload.before === ZERO_SHA) {
+    if (commits.length === 0) {
+      return { title, body, skipReason: `push to new branch ${branch} has no commits` };
+    }
+
+    return {
+      title,
+      body,
+      changes: [{ commits: { shas: commits.map(commit => commit.id) } }],
+    };
+  }
+
+  return {
+    title,
+    body,
+    // "before" is the previous branch tip, which has already been documented
+    changes: [{ commits: { startSha: payload.before, endSha: payload.after, includeStartCommit: false } }],
+  };
+}
+
+/**
+ * Extract defaults from tag push (or tag create) event
+ */
+async function getTagDefaults(
+  context: typeof github.context,
+  githubToken: string | undefined
+): Promise<SmartDefaults> {
+  const payload = context.payload;
+  let tagName: string | undefined;
+
+  if (typeof payload.ref === 'string' && payload.ref.startsWith('refs/tags/')) {
+    tagName = payload.ref.slice('refs/tags/'.length);
+  } else if (payload.ref_type === 'tag' && typeof payload.ref === 'string') {
+    tagName = payload.ref;
+  }
+
+  if (!tagName) {
+    throw new Error('No tag found in event payload. Is this a tag push event?');
+  }
+
+  const title = `Release notes for ${tagName}`;
+
+  if (payload.deleted) {
+    return { title, body: '', skipReason: `tag ${tagName} was deleted` };
+  }
+
+  if (!githubToken) {
+    throw new Error('github-token is required for event-type: tag to find the previous tag');
+  }
+
+  const previousTag = await findPreviousTag(githubToken, tagName);
+
+  if (!previousTag) {
+    return {
+      title,
+      body: `Document changes in ${tagName}, the first tagged release`,
+      eventType: 'release',
+    };
+  }
+
+  return {
+    title,
+    body: `Document changes in ${tagName} since ${previousTag}`,
+    eventType: 'release',
+    changes: [{ tags: { start: previousTag, end: tagName } }],
+  };
+}
+
+/**
+ * Extract defaults from workflow_dispatch inputs.
+ *
+ * Well-known input keys (title, body, start_sha, end_sha, tag, publications)
+ * are mapped onto the request; explicit action inputs still take precedence.
+ */
+function getDispatchDefaults(context: typeof github.context): SmartDefaults {
+  const dispatchInputs = context.payload.inputs;
+
+  if (!dispatchInputs) {
+    throw new Error('No workflow_dispatch inputs found in event payload. Is this a workflow_dispatch event?');
+  }
+
+  const get = (key: string): string => {
+    const value = dispatchInputs[key];
+    return value === undefined || value === null ? '' : String(value).trim();
+  };
+
+  const startSha = get('start_sha');
+  const endSha = get('end_sha');
+
+  if (endSha && !startSha) {
+    throw new Error('workflow_dispatch input end_sha requires start_sha');
+  }
+
+  // Map dispatch inputs onto changeset input names so the usual validation applies
+  const dispatchChangeset: Record<string, string> = {
+    'commits-since-sha': endSha ? '' : startSha,
+    'commits-start-sha': endSha ? startSha : '',
+    'commits-end-sha': endSha,
+    'tags-start': get('tag'),
+  };
+  const changeset = parseChangesetInputs(name => dispatchChangeset[name] || '');
+
+  const publications = get('publications')
+    .split(',')
+    .map(p => p.trim())
+    .filter(Boolean);
+
+  return {
+    title: get('title') || 'Manual documentation request',
+    body: get('body') || 'Generate documentation for the selected changes',
+    changes: changeset ? buildChanges(changeset) : undefined,
+    publications: publications.length > 0 ? publications : undefined,
+  };
+}
+
+/**
+ * Extract defaults for a scheduled run covering everything since the previous
+ * successful run of the same workflow. An explicit starting point (a commit SHA
+ * or ISO 8601 timestamp, e.g. from a repository variable) skips the lookup.
+ */
+async function getScheduleDefaults(
+  context: typeof github.context,
+  githubToken?: string,
+  scheduleSince?: string
+): Promise<SmartDefaults> {
+  let changeset: ChangesetInput;
+  let window: ChangeWindow;
+  let since: string;
+
+  if (scheduleSince && SHA_PATTERN.test(scheduleSince)) {
+    changeset = { commitsSinceSha: scheduleSince };
+    window = { start: scheduleSince, end: context.sha };
+    since = `commit ${scheduleSince.substring(0, 7)}`;
+  } else if (scheduleSince) {
+    const start = Date.parse(scheduleSince);
+    if (!isIsoTimestamp(scheduleSince)) {
+      throw new Error(`schedule-since must be a commit SHA or an ISO 8601 timestamp, got "${scheduleSince}"`);
+    }
+    window = { start: new Date(start).toISOString(), end: new Date().toISOString() };
+    changeset = { timeRangeStart: window.start, timeRangeEnd: window.end };
+    since = window.start;
+  } else {
+    if (!githubToken) {
+      throw new Error('github-token is required for event-type: schedule to find the previous successful run');
+    }
+
+    const previousRun = await findLastSuccessfulRun(githubToken);
+    if (!previousRun) {
+      return {
+        title: SCHEDULE_TITLE,
+        body: '',
+        skipReason: 'no previous successful run of this workflow found; set schedule-since to choose a starting point',
+      };
+    }
+
+    changeset = { commitsSinceSha: previousRun.headSha };
+    window = { start: previousRun.headSha, end: context.sha };
+    since = `the last successful run (${previousRun.headSha.substring(0, 7)})`;
+  }
+
+  if (window.start === window.end) {
+    return {
+      title: SCHEDULE_TITLE,
+      body: '',
+      window,
+      skipReason: `no new commits since ${since}`,
+    };
+  }
+
+  return {
+    title: SCHEDULE_TITLE,
+    body: `Document all changes since ${since}`,
+    changes: buildChanges(changeset),
+    window,
   };
 }
 
+/**
+ * Skip reason for a body directive that sets skip=true
+ */
+function directiveSkipReason(
+  directives: BodyDirectives | undefined,
+  source: 'pull request' | 'release'
+): string | undefined {
+  return directives?.skip ? `skipped by a doc-holiday directive in the ${source} body` : undefined;
+}
+
+/**
+ * Build a push body from the branch name and commit message subjects
+ */
+function buildPushBody(branch: string, commits: Array<{ id: string; message: string }>): string {
+  const lines = commits
+    .slice(0, MAX_BODY_COMMITS)
+    .map(commit => `- ${commit.message.split('\n')[0]} (${commit.id.slice(0, 7)})`);
+
+  if (commits.length > MAX_BODY_COMMITS) {
+    lines.push(`- ...and ${commits.length - MAX_BODY_COMMITS} more commits`);
+  }
+
+  return lines.length > 0
+    ? `Document changes pushed to ${branch}:\n\n${lines.join('\n')}`
+    : `Document changes pushed to ${branch}`;
+}
+
 /**
  * Infer source connection from current repository
  */
@@ -0,0 +1,31 @@
+// src/idempotency.ts
+import * as github from '@actions/github';
+import { createHash } from 'crypto';
+import { ActionInputs, DocHolidayRequest } from './types';
+
+/**
+ * Derive the idempotency key sent with a job request. The key is a hash of
+ * the repository, workflow run, job step, event type and changeset. The run
+ * id identifies the triggering event and stays the same on re-runs, while
+ * the run attempt is left out, so re-running a workflow returns the job the
+ * first attempt created. Named jobs (batch entries, monorepo packages) add
+ * their name, including to an idempotency-key override.
+ */
+export function buildIdempotencyKey(inputs: ActionInputs, request: DocHolidayRequest, name?: string): string {
+  if (inputs.idempotencyKey) {
+    return name ? `${inputs.idempotencyKey}:${name}` : inputs.idempotencyKey;
+  }
+
+  const { owner, repo } = github.context.repo;
+  const material = JSON.stringify({
+    repository: `${owner}/${repo}`,
+    runId: github.context.runId,
+    job: github.context.job,
+    step: process.env.GITHUB_ACTION || '',
+    eventType: inputs.eventType || 'custom',
+    changes: request.docRequest.changes ?? [],
+    name: name ?? '',
+  });
+
+  return createHash('sha256').update(material).digest('hex');
+}
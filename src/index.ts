@@ -3,8 +3,50 @@ import * as core from '@actions/core';
 import { parseInputs } from './inputs';
 import { getSmartDefaults, inferSourceConnection } from './github-context';
 import { buildChanges } from './changes';
-import { createJob, constructJobUrl } from './api';
-import { DocHolidayRequest } from './types';
+import { createJob, getJob, waitForJob, getJobResult, constructJobUrl } from './api';
+import { loadJobsConfig } from './config';
+import { ApiError, ApiErrorCode } from './errors';
+import { collectPullRequestContext } from './enrichment';
+import { buildIdempotencyKey } from './idempotency';
+import { findSkipLabel, publicationsForLabels } from './labels';
+import { findAffectedPackages, parsePackagesConfig } from './packages';
+import { filterPaths, getChangedFiles } from './paths';
+import { verifyChanges } from './preflight';
+import {
+  PREVIEW_COMMENT_MARKER,
+  buildJobComment,
+  buildPreviewComment,
+  findPreviewJob,
+  upsertPullRequestComment,
+} from './pr-comment';
+import { resolveCommitRange } from './refs';
+import { updateReleaseBody } from './release-notes';
+import { writeBatchSummary, writeDryRunSummary, writeJobSummary } from './summary';
+import { resolveTimeRange } from './time-range';
+import {
+  ActionInputs,
+  BatchJobResult,
+  BodyDirectives,
+  Change,
+  ChangesetInput,
+  ChangeWindow,
+  CreateJobOptions,
+  DocHolidayRequest,
+  DocHolidayResponse,
+  JobSummaryDetails,
+  PackageConfig,
+  PreviewJob,
+  PullRequestContext,
+  SmartDefaults,
+} from './types';
+
+/**
+ * A request to create as one of several named jobs
+ */
+interface NamedRequest {
+  name: string;
+  request: DocHolidayRequest;
+}
 
 export async function run(): Promise<void> {
   try {
@@ -14,19 +56,75 @@ export async function run(): Promise<void> {
     const inputs = parseInputs();
     core.info('Inputs parsed and validated successfully');
 
+    if (inputs.configFile) {
+      await runBatch(inputs, inputs.configFile);
+      return;
+    }
+
+    const packages = inputs.packages ? parsePackagesConfig(inputs.packages) : undefined;
+
     // Step 2: Determine title, body, eventType, and changes from smart defaults
     let title = inputs.title;
     let body = inputs.body;
-    let eventType = inputs.eventType;
-    let smartChanges: any[] | undefined;
+    let eventType: SmartDefaults['eventType'];
+    let smartChanges: Change[] | undefined;
+    let pullRequestNumber: number | undefined;
+    let releaseId: number | undefined;
+    let smartPublications: string[] | undefined;
+    let smartLabels: string[] | undefined;
+    let labelPublications: string[] | undefined;
+    let previewHeadSha: string | undefined;
+    let directives: BodyDirectives | undefined;
 
-    if (inputs.eventType === 'release' || inputs.eventType === 'merge') {
+    if (inputs.eventType && inputs.eventType !== 'custom') {
       core.info(`Smart mode: ${inputs.eventType}`);
-      const smartDefaults = getSmartDefaults(inputs.eventType);
-      title = smartDefaults.title;
-      body = smartDefaults.body;
+      const smartDefaults = await getSmartDefaults(
+        inputs.eventType,
+        inputs.githubToken,
+        inputs.scheduleSince
+      );
+
+      if (smartDefaults.window) {
+        reportWindow(smartDefaults.window);
+      }
+
+      if (smartDefaults.skipReason) {
+        core.info(`Skipping job creation: ${smartDefaults.skipReason}`);
+        core.setOutput('skipped', 'true');
+        return;
+      }
+
+      // Explicit title and body inputs only take precedence over dispatch inputs;
+      // the other smart modes always use their generated title and body
+      if (inputs.eventType === 'dispatch') {
+        title = inputs.title || smartDefaults.title;
+        body = inputs.body || smartDefaults.body;
+      } else {
+        title = smartDefaults.title;
+        body = smartDefaults.body;
+      }
       eventType = smartDefaults.eventType;
       smartChanges = smartDefaults.changes;
+      pullRequestNumber = smartDefaults.pullRequestNumber;
+      releaseId = smartDefaults.releaseId;
+      smartPublications = smartDefaults.publications;
+      previewHeadSha = smartDefaults.headSha;
+      directives = smartDefaults.directives;
+
+      // Labels on the merged PR can suppress the job and pick publications
+      const prLabels = smartDefaults.pullRequestLabels ?? [];
+      const skipLabel = findSkipLabel(prLabels, inputs.skipLabels);
+      if (skipLabel) {
+        core.info(`Skipping job creation: pull request is labeled "${skipLabel}"`);
+        core.setOutput('skipped', 'true');
+        return;
+      }
+
+      smartLabels = mergeLists(smartDefaults.labels, smartDefaults.pullRequestLabels);
+      labelPublications = publicationsForLabels(prLabels, inputs.labelPublications);
+      if (labelPublications.length > 0) {
+        core.info(`Publications from PR labels: ${labelPublications.join(', ')}`);
+      }
     }
 
     if (!title || !body) {
@@ -37,21 +135,46 @@ export async function run(): Promise<void> {
     const sourceConnection = inputs.sourceConnection || inferSourceConnection();
     core.info(`Source connection: ${sourceConnection}`);
 
-    // Step 4: Build changes array - prioritize manual inputs, then smart defaults
-    let changes: any[] | undefined;
-    if (inputs.changeset) {
-      const builtChanges = buildChanges(inputs.changeset);
+    // Step 4: Build changes array - prioritize body directives, then manual inputs, then smart defaults
+    let changes: Change[] | undefined;
+    let changesetSource: JobSummaryDetails['changesetSource'] = 'none';
+    const directiveChangeset = directives?.changeset
+      ? await resolveChangeset(directives.changeset, inputs.githubToken)
+      : undefined;
+    const directiveChanges = directiveChangeset ? buildChanges(directiveChangeset) : [];
+    if (directiveChanges.length > 0) {
+      changes = directiveChanges;
+      changesetSource = 'body directive';
+      core.info('Using changeset from doc-holiday directive in the body');
+      reportTimeRange(directiveChangeset);
+    } else if (inputs.changeset) {
+      const changeset = await resolveChangeset(inputs.changeset, inputs.githubToken);
+      const builtChanges = buildChanges(changeset);
       if (builtChanges.length > 0) {
         changes = builtChanges;
+        changesetSource = 'manual inputs';
         core.info('Changeset specification added to request');
         core.warning('Changeset inputs override any commits specified in body');
+        reportTimeRange(changeset);
       }
     } else if (smartChanges && smartChanges.length > 0) {
       // Use changes from smart defaults if no manual changeset provided
       changes = smartChanges;
+      changesetSource = 'smart defaults';
       core.info('Using smart default changeset specification');
     }
 
+    // Fail fast on commits and tags that do not exist (dispatch SHAs are typed by hand too)
+    if (changes && (changesetSource !== 'smart defaults' || inputs.eventType === 'dispatch')) {
+      changes = await verifyChanges(changes, inputs.githubToken);
+    }
+
+    // Optionally collect PR metadata and review discussion for merge mode
+    const enrichment =
+      inputs.enrichPr && inputs.eventType === 'merge' && pullRequestNumber !== undefined
+        ? await enrichFromPullRequest(inputs, pullRequestNumber)
+        : undefined;
+
     // Step 5: Build API request
     const request: DocHolidayRequest = {
       docRequest: {
@@ -61,20 +184,25 @@ export async function run(): Promise<void> {
       },
     };
 
-    // Add optional fields
-    if (inputs.publications) {
-      request.docRequest.publications = inputs.publications;
+    // Add optional fields (body directives override inputs and smart defaults)
+    const publications =
+      directives?.publications ?? mergeLists(inputs.publications ?? smartPublications, labelPublications);
+    if (publications) {
+      request.docRequest.publications = publications;
     }
-    if (inputs.labels) {
-      request.docRequest.labels = inputs.labels;
+    const labels = directives?.labels ?? mergeLists(inputs.labels, smartLabels);
+    if (labels) {
+      request.docRequest.labels = labels;
     }
-    if (inputs.comments) {
-      request.docRequest.comments = inputs.comments;
+    const comments = mergeLists(directives?.comments ?? inputs.comments, enrichment?.comments);
+    if (comments) {
+      request.docRequest.comments = comments;
     }
-    if (inputs.relevantLinks) {
-      request.docRequest.relevantLinks = inputs.relevantLinks;
+    const relevantLinks = mergeLists(inputs.relevantLinks, enrichment?.relevantLinks);
+    if (relevantLinks) {
+      request.docRequest.relevantLinks = relevantLinks;
     }
-    if (eventType && eventType !== 'custom') {
+    if (eventType) {
       request.docRequest.eventType = eventType;
     }
     if (changes) {
@@ -83,27 +211,530 @@ export async function run(): Promise<void> {
 
     core.info('API request constructed');
 
+    const pathSkipReason = await checkPathFilters(inputs, changes, pullRequestNumber);
+    if (pathSkipReason) {
+      core.info(`Skipping job creation: ${pathSkipReason}`);
+      core.setOutput('skipped', 'true');
+      return;
+    }
+
+    // Monorepos create one job per affected package instead
+    if (packages && inputs.githubToken) {
+      await runPackages(inputs, inputs.githubToken, packages, request, pullRequestNumber);
+      return;
+    }
+
+    if (inputs.dryRun) {
+      await reportDryRun(request, [request]);
+      return;
+    }
+
+    // Preview jobs are reused while the PR head is unchanged and superseded otherwise
+    let supersededJobId: string | undefined;
+    if (previewHeadSha && pullRequestNumber !== undefined && inputs.githubToken) {
+      const previous = await findPreviousPreview(inputs.githubToken, pullRequestNumber);
+
+      if (previous?.headSha === previewHeadSha && (await reusePreviewJob(inputs, previous.jobId))) {
+        return;
+      }
+      supersededJobId = previous?.jobId;
+    }
+
     // Step 6: Create job
-    const response = await createJob(inputs.apiToken, request);
+    const response = await createJob(inputs.apiToken, request, inputs.apiUrl, createJobOptions(inputs, request));
 
     // Step 7: Set outputs
-    const jobUrl = constructJobUrl(response.id);
+    const jobUrl = constructJobUrl(response.id, inputs.appUrl);
 
     core.setOutput('job-id', response.id);
-    core.setOutput('job-state', response.state);
     core.setOutput('job-url', jobUrl);
 
+    // Step 8: Optionally wait for the job to finish
+    const jobState = await resolveJobState(inputs, response);
+
+    core.setOutput('job-state', jobState);
+
+    await writeJobSummary({
+      title,
+      eventType: inputs.eventType || 'custom',
+      sourceConnection,
+      publications: request.docRequest.publications,
+      labels: request.docRequest.labels,
+      changes,
+      changesetSource,
+      jobId: response.id,
+      jobState,
+      jobUrl,
+    });
+
+    // Step 9: Link the job from the pull request (always for previews, which track it there)
+    if (previewHeadSha && pullRequestNumber !== undefined) {
+      await commentOnPreview(
+        inputs,
+        pullRequestNumber,
+        buildPreviewComment({ jobId: response.id, headSha: previewHeadSha }, jobState, jobUrl, supersededJobId)
+      );
+    } else if (inputs.commentOnPr) {
+      await commentOnPullRequest(inputs, pullRequestNumber, response.id, jobState, jobUrl);
+    }
+
+    if (inputs.waitForCompletion && jobState === 'errored') {
+      throw new Error(`Job ${response.id} finished in errored state. View job: ${jobUrl}`);
+    }
+
+    // Step 10: Optionally write the generated notes back to the release
+    if (inputs.updateRelease) {
+      await publishReleaseNotes(inputs, releaseId, response.id);
+    }
+
     core.info('✓ Action completed successfully!');
     core.info(`Job ID: ${response.id}`);
-    core.info(`Job State: ${response.state}`);
+    core.info(`Job State: ${jobState}`);
     core.info(`View job: ${jobUrl}`);
   } catch (error) {
-    if (error instanceof Error) {
-      core.setFailed(error.message);
-    } else {
-      core.setFailed('An unknown error occurred');
+    const message = error instanceof Error ? error.message : 'An unknown error occurred';
+    core.setOutput('error-code', error instanceof ApiError ? error.code : 'unknown');
+    core.setOutput('error-message', message);
+    core.setFailed(message);
+  }
+}
+
+/**
+ * Apply the paths/paths-ignore filters to the files changed by the PR or the
+ * request's changes. Returns a skip reason when no changed file is relevant.
+ * When the changed files cannot be determined the job is created anyway.
+ */
+async function checkPathFilters(
+  inputs: ActionInputs,
+  changes: Change[] | undefined,
+  pullRequestNumber?: number
+): Promise<string | undefined> {
+  if ((!inputs.paths && !inputs.pathsIgnore) || !inputs.githubToken) {
+    return undefined;
+  }
+
+  let files: string[] | undefined;
+  try {
+    files = await getChangedFiles(inputs.githubToken, changes, pullRequestNumber);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'An unknown error occurred';
+    core.warning(`Failed to read changed files, ignoring path filters: ${message}`);
+    return undefined;
+  }
+
+  if (!files) {
+    core.warning('Changed files cannot be determined (no commit range, or more changed files than GitHub lists); ignoring path filters');
+    return undefined;
+  }
+
+  const matched = filterPaths(files, inputs.paths, inputs.pathsIgnore);
+  if (matched.length === 0) {
+    return `none of the ${files.length} changed file(s) match the paths filters`;
+  }
+
+  core.info(`${matched.length} of ${files.length} changed file(s) match the paths filters`);
+  return undefined;
+}
+
+/**
+ * Collect PR context for the request. Failures (e.g. missing permissions) are
+ * reported as warnings and the job is created without it.
+ */
+async function enrichFromPullRequest(
+  inputs: ActionInputs,
+  pullRequestNumber: number
+): Promise<PullRequestContext | undefined> {
+  if (!inputs.githubToken) {
+    return undefined;
+  }
+
+  try {
+    const context = await collectPullRequestContext(inputs.githubToken, pullRequestNumber);
+    core.info(
+      `Added ${context.comments.length} comment(s) and ${context.relevantLinks.length} link(s) from PR #${pullRequestNumber}`
+    );
+    return context;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'An unknown error occurred';
+    core.warning(`Failed to collect context from PR #${pullRequestNumber}: ${message}`);
+    return undefined;
+  }
+}
+
+/**
+ * Combine explicit values (e.g. labels or publications) with values added by
+ * smart defaults, without duplicates
+ */
+function mergeLists(values?: string[], extra?: string[]): string[] | undefined {
+  if (!extra || extra.length === 0) {
+    return values;
+  }
+  return Array.from(new Set([...(values ?? []), ...extra]));
+}
+
+/**
+ * Resolve relative time ranges and git-style commit ranges before the
+ * changes are built
+ */
+async function resolveChangeset(changeset: ChangesetInput, githubToken?: string): Promise<ChangesetInput> {
+  return resolveCommitRange(await resolveTimeRange(changeset, githubToken), githubToken);
+}
+
+/**
+ * Log the resolved change window and expose it as outputs
+ */
+function reportWindow(window: ChangeWindow): void {
+  core.info(`Change window: ${window.start}..${window.end}`);
+  core.setOutput('window-start', window.start);
+  core.setOutput('window-end', window.end);
+}
+
+/**
+ * Report the window of a time-range changeset, if it has one
+ */
+function reportTimeRange(changeset: ChangesetInput | undefined): void {
+  if (changeset?.timeRangeStart && changeset.timeRangeEnd) {
+    reportWindow({ start: changeset.timeRangeStart, end: changeset.timeRangeEnd });
+  }
+}
+
+/**
+ * Look up the preview job recorded on the PR. Lookup failures (e.g. missing
+ * permissions) fall back to creating a new job.
+ */
+async function findPreviousPreview(
+  githubToken: string,
+  pullRequestNumber: number
+): Promise<PreviewJob | undefined> {
+  try {
+    return await findPreviewJob(githubToken, pullRequestNumber);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'An unknown error occurred';
+    core.warning(`Failed to look up the preview job on PR #${pullRequestNumber}: ${message}`);
+    return undefined;
+  }
+}
+
+/**
+ * Output an existing preview job instead of creating a new one. Returns false
+ * when the job can no longer be fetched.
+ */
+async function reusePreviewJob(inputs: ActionInputs, jobId: string): Promise<boolean> {
+  try {
+    const job = await getJob(inputs.apiToken, jobId, inputs.apiUrl);
+    const jobUrl = constructJobUrl(job.id, inputs.appUrl);
+
+    core.info(`Pull request head is unchanged; reusing preview job ${job.id}`);
+    core.setOutput('job-id', job.id);
+    core.setOutput('job-url', jobUrl);
+    core.setOutput('job-state', job.state);
+    core.info(`View job: ${jobUrl}`);
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'An unknown error occurred';
+    core.warning(`Failed to fetch preview job ${jobId}, creating a new one: ${message}`);
+    return false;
+  }
+}
+
+/**
+ * Record the preview job in its PR comment, replacing any earlier preview
+ */
+async function commentOnPreview(
+  inputs: ActionInputs,
+  pullRequestNumber: number,
+  body: string
+): Promise<void> {
+  if (!inputs.githubToken) {
+    core.warning('event-type: pull-request requires a github-token; skipping preview comment');
+    return;
+  }
+
+  try {
+    await upsertPullRequestComment(inputs.githubToken, pullRequestNumber, body, PREVIEW_COMMENT_MARKER);
+    core.info(`Updated preview comment on PR #${pullRequestNumber}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'An unknown error occurred';
+    core.warning(`Failed to comment on PR #${pullRequestNumber}: ${message}`);
+  }
+}
+
+/**
+ * Create every job declared in a batch config file and output their ids/urls
+ */
+async function runBatch(inputs: ActionInputs, configFile: string): Promise<void> {
+  const jobs = loadJobsConfig(configFile);
+  core.info(`Loaded ${jobs.length} job(s) from ${configFile}`);
+
+  const requests = await Promise.all(jobs.map(async job => {
+    // Job-level fields take precedence over action-level inputs
+    const request: DocHolidayRequest = {
+      docRequest: {
+        title: job.title,
+        body: job.body,
+        sourceConnection: job.sourceConnection || inputs.sourceConnection || inferSourceConnection(),
+      },
+    };
+
+    const publications = job.publications ?? inputs.publications;
+    const labels = job.labels ?? inputs.labels;
+    const comments = job.comments ?? inputs.comments;
+    const relevantLinks = job.relevantLinks ?? inputs.relevantLinks;
+    const changeset = job.changeset ?? inputs.changeset;
+
+    if (publications) {
+      request.docRequest.publications = publications;
+    }
+    if (labels) {
+      request.docRequest.labels = labels;
     }
+    if (comments) {
+      request.docRequest.comments = comments;
+    }
+    if (relevantLinks) {
+      request.docRequest.relevantLinks = relevantLinks;
+    }
+    if (changeset) {
+      const changes = buildChanges(await resolveChangeset(changeset, inputs.githubToken));
+      if (changes.length > 0) {
+        request.docRequest.changes = await verifyChanges(changes, inputs.githubToken);
+      }
+    }
+
+    return request;
+  }));
+
+  if (inputs.dryRun) {
+    core.setOutput('jobs', '[]');
+    await reportDryRun(requests, requests);
+    return;
+  }
+
+  const selected: NamedRequest[] = [];
+  for (const [index, job] of jobs.entries()) {
+    const skipReason = await checkPathFilters(inputs, requests[index].docRequest.changes);
+    if (skipReason) {
+      core.info(`Skipping job "${job.name}": ${skipReason}`);
+      continue;
+    }
+    selected.push({ name: job.name, request: requests[index] });
+  }
+
+  await createNamedJobs(inputs, selected);
+}
+
+/**
+ * Create one job per package touched by the changed files. Each job extends
+ * the resolved request with the package's title suffix, publications, labels
+ * and source connection.
+ */
+async function runPackages(
+  inputs: ActionInputs,
+  githubToken: string,
+  packages: PackageConfig[],
+  request: DocHolidayRequest,
+  pullRequestNumber: number | undefined
+): Promise<void> {
+  const files = await getChangedFiles(githubToken, request.docRequest.changes, pullRequestNumber);
+  if (!files) {
+    throw new Error('packages requires the changed files, which cannot be determined (no commit range, or more changed files than GitHub lists)');
+  }
+
+  const affected = findAffectedPackages(packages, files);
+  if (affected.length === 0) {
+    core.info(`Skipping job creation: none of the ${files.length} changed file(s) belong to a configured package`);
+    core.setOutput('skipped', 'true');
+    core.setOutput('jobs', '[]');
+    return;
   }
+
+  core.info(`Affected packages: ${affected.map(pkg => pkg.name).join(', ')}`);
+
+  const jobs = affected.map(pkg => {
+    const docRequest = {
+      ...request.docRequest,
+      title: `${request.docRequest.title} (${pkg.name})`,
+      sourceConnection: pkg.sourceConnection || request.docRequest.sourceConnection,
+    };
+
+    const publications = pkg.publications ?? request.docRequest.publications;
+    const labels = mergeLists(request.docRequest.labels, pkg.labels);
+    if (publications) {
+      docRequest.publications = publications;
+    }
+    if (labels) {
+      docRequest.labels = labels;
+    }
+
+    return { name: pkg.name, request: { docRequest } };
+  });
+
+  if (inputs.dryRun) {
+    core.setOutput('jobs', '[]');
+    const requests = jobs.map(job => job.request);
+    await reportDryRun(requests, requests);
+    return;
+  }
+
+  await createNamedJobs(inputs, jobs);
+}
+
+/**
+ * Create named jobs one after another, output them as a JSON array and fail
+ * after all attempts if any job failed
+ */
+async function createNamedJobs(inputs: ActionInputs, jobs: NamedRequest[]): Promise<void> {
+  const results: BatchJobResult[] = [];
+  const failures: string[] = [];
+  const failureCodes: Array<ApiErrorCode | undefined> = [];
+
+  for (const job of jobs) {
+    try {
+      core.info(`Creating job "${job.name}"...`);
+      const response = await createJob(
+        inputs.apiToken,
+        job.request,
+        inputs.apiUrl,
+        createJobOptions(inputs, job.request, job.name)
+      );
+      // List the job before waiting so it stays in the jobs output if waiting fails;
+      // its state is then the last one seen
+      const result: BatchJobResult = {
+        name: job.name,
+        id: response.id,
+        state: response.state,
+        url: constructJobUrl(response.id, inputs.appUrl),
+      };
+      results.push(result);
+
+      result.state = await resolveJobState(inputs, response);
+
+      if (inputs.waitForCompletion && result.state === 'errored') {
+        failures.push(`${job.name}: job ${response.id} finished in errored state`);
+        failureCodes.push(undefined);
+      }
+    } catch (error) {
+      failures.push(`${job.name}: ${error instanceof Error ? error.message : 'An unknown error occurred'}`);
+      failureCodes.push(error instanceof ApiError ? error.code : undefined);
+    }
+  }
+
+  core.setOutput('jobs', JSON.stringify(results));
+  await writeBatchSummary(results);
+
+  if (failures.length > 0) {
+    const message = `${failures.length} of ${jobs.length} jobs failed: ${failures.join('; ')}`;
+    // Keep the error code when every job failed the same way, so error-code stays meaningful
+    const code = failureCodes[0];
+    if (code && failureCodes.every(other => other === code)) {
+      throw new ApiError(code, message);
+    }
+    throw new Error(message);
+  }
+
+  core.info(`✓ Created ${results.length} jobs successfully!`);
+  for (const result of results) {
+    core.info(`${result.name}: ${result.url}`);
+  }
+}
+
+/**
+ * Post or update the job status comment on the merged pull request.
+ * Comment failures are reported as warnings since the job itself was created.
+ */
+async function commentOnPullRequest(
+  inputs: ActionInputs,
+  pullRequestNumber: number | undefined,
+  jobId: string,
+  jobState: string,
+  jobUrl: string
+): Promise<void> {
+  if (pullRequestNumber === undefined || !inputs.githubToken) {
+    core.warning('comment-on-pr requires event-type: merge and a github-token; skipping PR comment');
+    return;
+  }
+
+  try {
+    await upsertPullRequestComment(
+      inputs.githubToken,
+      pullRequestNumber,
+      buildJobComment(jobId, jobState, jobUrl)
+    );
+    core.info(`Commented on PR #${pullRequestNumber}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'An unknown error occurred';
+    core.warning(`Failed to comment on PR #${pullRequestNumber}: ${message}`);
+  }
+}
+
+/**
+ * Log and output the request(s) a dry run would have sent, without calling the API
+ */
+async function reportDryRun(output: unknown, requests: DocHolidayRequest[]): Promise<void> {
+  core.info(`Dry run: skipping job creation. Request:\n${JSON.stringify(output, null, 2)}`);
+
+  core.setOutput('request-json', JSON.stringify(output));
+  core.setOutput('job-id', '');
+  core.setOutput('job-state', '');
+  core.setOutput('job-url', '');
+
+  await writeDryRunSummary(requests);
+
+  core.info('✓ Dry run completed successfully!');
+}
+
+/**
+ * Fetch the finished job's release notes and patch them into the GitHub release
+ */
+async function publishReleaseNotes(
+  inputs: ActionInputs,
+  releaseId: number | undefined,
+  jobId: string
+): Promise<void> {
+  if (releaseId === undefined || !inputs.updateRelease || !inputs.githubToken) {
+    throw new Error('update-release requires a release event and a github-token');
+  }
+
+  const result = await getJobResult(inputs.apiToken, jobId, inputs.apiUrl);
+
+  if (!result.releaseNotes) {
+    core.warning(`Job ${jobId} produced no release notes; release body left unchanged`);
+    return;
+  }
+
+  await updateReleaseBody(inputs.githubToken, releaseId, result.releaseNotes, inputs.updateRelease);
+  core.info(`Release body updated (${inputs.updateRelease})`);
+}
+
+/**
+ * Idempotency key and retry policy for a job request
+ */
+function createJobOptions(inputs: ActionInputs, request: DocHolidayRequest, name?: string): CreateJobOptions {
+  return {
+    idempotencyKey: buildIdempotencyKey(inputs, request, name),
+    maxRetries: inputs.maxRetries,
+    requestTimeout: inputs.requestTimeout !== undefined ? inputs.requestTimeout * 1000 : undefined,
+  };
+}
+
+/**
+ * Poll a created job until it finishes when wait-for-completion is enabled
+ */
+async function resolveJobState(
+  inputs: ActionInputs,
+  response: DocHolidayResponse
+): Promise<DocHolidayResponse['state']> {
+  if (!inputs.waitForCompletion) {
+    return response.state;
+  }
+
+  core.info(`Waiting for job ${response.id} to complete...`);
+  const finalJob = await waitForJob(inputs.apiToken, response.id, {
+    pollInterval: (inputs.pollInterval ?? 30) * 1000,
+    timeout: (inputs.timeout ?? 1800) * 1000,
+  }, inputs.apiUrl);
+
+  return finalJob.state;
 }
 
 // Only run if not in test environment
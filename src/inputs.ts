@@ -1,14 +1,24 @@
 // src/inputs.ts
 import * as core from '@actions/core';
-import { ActionInputs, ChangesetInput } from './types';
+import { parse } from 'yaml';
+import { validateChanges } from './changes';
+import { parseRefRange, parseTagsRange } from './refs';
+import { parseTimeRange, SINCE_LAST_RELEASE } from './time-range';
+import { ActionInputs, Change, ChangesetInput, ReleaseUpdateMode, SmartEventType } from './types';
+
+const DEFAULT_POLL_INTERVAL = 30; // seconds
+const DEFAULT_TIMEOUT = 1800; // 30 minutes
+const RELEASE_UPDATE_MODES: ReleaseUpdateMode[] = ['replace', 'append', 'section'];
 
 /**
  * Parse and validate all action inputs
  */
 export function parseInputs(): ActionInputs {
   const apiToken = core.getInput('api-token', { required: true });
+  const apiUrl = parseBaseUrl('api-url', core.getInput('api-url') || process.env.DOC_HOLIDAY_API_URL);
+  const appUrl = parseBaseUrl('app-url', core.getInput('app-url') || process.env.DOC_HOLIDAY_APP_URL);
   const eventTypeRaw = core.getInput('event-type');
-  const eventType = (eventTypeRaw || undefined) as 'release' | 'merge' | 'custom' | undefined;
+  const eventType = (eventTypeRaw || undefined) as SmartEventType | 'custom' | undefined;
 
   // Manual mode inputs
   const title = core.getInput('title');
@@ -18,6 +28,36 @@ export function parseInputs(): ActionInputs {
   const labelsInput = core.getInput('labels');
   const commentsInput = core.getInput('comments');
   const relevantLinksInput = core.getInput('relevant-links');
+  const configFile = core.getInput('config-file');
+  const packages = core.getInput('packages');
+  const dryRunInput = core.getInput('dry-run');
+  const scheduleSince = core.getInput('schedule-since');
+  const idempotencyKey = core.getInput('idempotency-key');
+
+  // Retry policy inputs
+  const maxRetriesInput = core.getInput('max-retries');
+  const requestTimeoutInput = core.getInput('request-timeout');
+
+  // Pull request comment inputs
+  const githubToken = core.getInput('github-token');
+  const commentOnPrInput = core.getInput('comment-on-pr');
+  const enrichPrInput = core.getInput('enrich-pr');
+
+  // Release body update input
+  const updateReleaseInput = core.getInput('update-release');
+
+  // Completion polling inputs
+  const waitForCompletionInput = core.getInput('wait-for-completion');
+  const pollIntervalInput = core.getInput('poll-interval');
+  const timeoutInput = core.getInput('timeout');
+
+  // Label gating and routing inputs (merge mode)
+  const skipLabelsInput = core.getInput('skip-labels');
+  const labelPublicationsInput = core.getInput('label-publications');
+
+  // Changed-file filter inputs
+  const pathsInput = core.getInput('paths');
+  const pathsIgnoreInput = core.getInput('paths-ignore');
 
   // Parse comma-separated inputs
   const publications = publicationsInput
@@ -36,11 +76,82 @@ export function parseInputs(): ActionInputs {
     ? relevantLinksInput.split(',').map(l => l.trim()).filter(Boolean)
     : undefined;
 
+  const skipLabels = skipLabelsInput
+    ? skipLabelsInput.split(',').map(l => l.trim()).filter(Boolean)
+    : undefined;
+
+  const labelPublications = parseLabelPublications(labelPublicationsInput);
+
+  // Parse newline-separated glob patterns (globs may contain commas)
+  const paths = pathsInput
+    ? pathsInput.split('\n').map(p => p.trim()).filter(Boolean)
+    : undefined;
+
+  const pathsIgnore = pathsIgnoreInput
+    ? pathsIgnoreInput.split('\n').map(p => p.trim()).filter(Boolean)
+    : undefined;
+
+  if ((paths || pathsIgnore) && !githubToken) {
+    throw new Error('github-token is required when paths or paths-ignore is set');
+  }
+
+  if (packages && !githubToken) {
+    throw new Error('github-token is required when packages is set');
+  }
+
   // Parse changeset inputs
   const changeset = parseChangesetInputs();
+  if (changeset?.timeRangeStart === SINCE_LAST_RELEASE && !githubToken) {
+    throw new Error(`github-token is required when time-range-start is ${SINCE_LAST_RELEASE}`);
+  }
 
-  // Validate manual mode requirements
-  if (!eventType || eventType === 'custom') {
+  // Parse release update mode (requires the finished job, so it implies waiting)
+  const updateRelease = parseReleaseUpdateMode(updateReleaseInput);
+  if (updateRelease) {
+    if (eventType !== 'release') {
+      throw new Error('update-release is only supported with event-type: release');
+    }
+    if (!githubToken) {
+      throw new Error('github-token is required when update-release is set');
+    }
+  }
+
+  // Parse polling inputs (only relevant when waiting for completion)
+  const waitForCompletion = updateRelease
+    ? true
+    : waitForCompletionInput ? waitForCompletionInput === 'true' : undefined;
+  const pollInterval = waitForCompletion
+    ? parsePositiveSeconds('poll-interval', pollIntervalInput, DEFAULT_POLL_INTERVAL)
+    : undefined;
+  const timeout = waitForCompletion
+    ? parsePositiveSeconds('timeout', timeoutInput, DEFAULT_TIMEOUT)
+    : undefined;
+
+  const maxRetries = maxRetriesInput ? Number(maxRetriesInput) : undefined;
+  if (maxRetries !== undefined && (!Number.isInteger(maxRetries) || maxRetries < 0)) {
+    throw new Error(`max-retries must be a non-negative integer, got "${maxRetriesInput}"`);
+  }
+  const requestTimeout = requestTimeoutInput
+    ? parsePositiveSeconds('request-timeout', requestTimeoutInput, 0)
+    : undefined;
+
+  const commentOnPr = commentOnPrInput ? commentOnPrInput === 'true' : undefined;
+  if (commentOnPr && !githubToken) {
+    throw new Error('github-token is required when comment-on-pr is true');
+  }
+
+  const enrichPr = enrichPrInput ? enrichPrInput === 'true' : undefined;
+  if (enrichPr && !githubToken) {
+    throw new Error('github-token is required when enrich-pr is true');
+  }
+
+  // Preview jobs are tracked through a PR comment
+  if (eventType === 'pull-request' && !githubToken) {
+    throw new Error('github-token is required for event-type: pull-request to track preview jobs');
+  }
+
+  // Validate manual mode requirements (batch jobs carry their own title and body)
+  if (!configFile && (!eventType || eventType === 'custom')) {
     if (!title) {
       throw new Error('title is required when event-type is not set or is "custom"');
     }
@@ -51,6 +162,8 @@ export function parseInputs(): ActionInputs {
 
   return {
     apiToken,
+    apiUrl,
+    appUrl,
     eventType,
     title: title || undefined,
     body: body || undefined,
@@ -60,24 +173,133 @@ export function parseInputs(): ActionInputs {
     comments,
     relevantLinks,
     changeset,
+    configFile: configFile || undefined,
+    packages: packages || undefined,
+    dryRun: dryRunInput ? dryRunInput === 'true' : undefined,
+    githubToken: githubToken || undefined,
+    scheduleSince: scheduleSince || undefined,
+    paths,
+    pathsIgnore,
+    skipLabels,
+    labelPublications,
+    commentOnPr,
+    enrichPr,
+    updateRelease,
+    waitForCompletion,
+    pollInterval,
+    timeout,
+    idempotencyKey: idempotencyKey || undefined,
+    maxRetries,
+    requestTimeout,
   };
 }
 
 /**
- * Parse changeset specification inputs
+ * Parse newline-separated "label=publication[,publication]" mappings
+ */
+function parseLabelPublications(value: string): Record<string, string[]> | undefined {
+  const lines = value.split('\n').map(line => line.trim()).filter(Boolean);
+  if (lines.length === 0) {
+    return undefined;
+  }
+
+  const mapping: Record<string, string[]> = {};
+  for (const line of lines) {
+    const separator = line.lastIndexOf('=');
+    const label = line.substring(0, separator).trim();
+    const publications = line.substring(separator + 1).split(',').map(p => p.trim()).filter(Boolean);
+
+    if (separator === -1 || !label || publications.length === 0) {
+      throw new Error(`label-publications entries must look like "label=publication[,publication]", got "${line}"`);
+    }
+
+    mapping[label] = [...(mapping[label] ?? []), ...publications];
+  }
+
+  return mapping;
+}
+
+/**
+ * Parse the release update mode, treating an empty value or "false" as disabled
  */
-function parseChangesetInputs(): ChangesetInput | undefined {
-  const releasesCount = core.getInput('releases-count');
-  const timeRangeStart = core.getInput('time-range-start');
-  const timeRangeEnd = core.getInput('time-range-end');
-  const commitsCount = core.getInput('commits-count');
-  const commitsSinceSha = core.getInput('commits-since-sha');
-  const commitsShas = core.getInput('commits-shas');
-  const commitsStartSha = core.getInput('commits-start-sha');
-  const commitsEndSha = core.getInput('commits-end-sha');
-  const commitsIncludeStart = core.getInput('commits-include-start');
-  const tagsStart = core.getInput('tags-start');
-  const tagsEnd = core.getInput('tags-end');
+function parseReleaseUpdateMode(value: string): ReleaseUpdateMode | undefined {
+  if (!value || value === 'false') {
+    return undefined;
+  }
+
+  if (!RELEASE_UPDATE_MODES.includes(value as ReleaseUpdateMode)) {
+    throw new Error(
+      `update-release must be one of ${RELEASE_UPDATE_MODES.join(', ')}, got "${value}"`
+    );
+  }
+
+  return value as ReleaseUpdateMode;
+}
+
+/**
+ * Validate a base URL input and strip any trailing slashes
+ */
+function parseBaseUrl(name: string, value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error(`${name} must be a valid URL, got "${value}"`);
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error(`${name} must use http or https, got "${value}"`);
+  }
+
+  if (url.search || url.hash) {
+    throw new Error(`${name} must not include a query string or fragment, got "${value}"`);
+  }
+
+  return value.replace(/\/+$/, '');
+}
+
+/**
+ * Parse a positive number of seconds, falling back to a default when empty
+ */
+function parsePositiveSeconds(name: string, value: string, defaultValue: number): number {
+  if (!value) {
+    return defaultValue;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    throw new Error(`${name} must be a positive number of seconds, got "${value}"`);
+  }
+
+  return seconds;
+}
+
+/**
+ * Parse changeset specification inputs. Values are read from action inputs
+ * by default; batch jobs pass a getter over their config entry instead.
+ */
+export function parseChangesetInputs(
+  getInput: (name: string) => string = name => core.getInput(name)
+): ChangesetInput | undefined {
+  const releasesCount = getInput('releases-count');
+  const timeRangeStart = getInput('time-range-start');
+  const timeRangeEnd = getInput('time-range-end');
+  const commitsCount = getInput('commits-count');
+  const commitsSinceSha = getInput('commits-since-sha');
+  const commitsShas = getInput('commits-shas');
+  const commitsStartSha = getInput('commits-start-sha');
+  const commitsEndSha = getInput('commits-end-sha');
+  const commitsIncludeStart = getInput('commits-include-start');
+  const tagsStart = getInput('tags-start');
+  const tagsEnd = getInput('tags-end');
+  const commitsRangeInput = getInput('commits-range');
+  const tagsRangeInput = getInput('tags-range');
+  const changes = parseChangesList(getInput('changes'));
+  const allowMultiple = getInput('allow-multiple-changesets') === 'true';
 
   // Check if any changeset inputs are provided
   const hasAnyChangesetInput = [
@@ -87,34 +309,51 @@ function parseChangesetInputs(): ChangesetInput | undefined {
     commitsSinceSha,
     commitsShas,
     commitsStartSha,
+    commitsRangeInput,
     tagsStart,
+    tagsRangeInput,
   ].some(Boolean);
 
-  if (!hasAnyChangesetInput) {
+  if (!hasAnyChangesetInput && !changes) {
     return undefined;
   }
 
-  // Validate mutual exclusivity
+  // Validate mutual exclusivity (an explicit changes list always combines)
   const specifiedTypes = [
     releasesCount && 'releases-count',
     timeRangeStart && 'time-range',
     commitsCount && 'commits-count',
     commitsSinceSha && 'commits-since-sha',
     commitsShas && 'commits-shas',
-    commitsStartSha && 'commits-range',
-    tagsStart && 'tags',
+    (commitsStartSha || commitsRangeInput) && 'commits-range',
+    (tagsStart || tagsRangeInput) && 'tags',
   ].filter(Boolean);
 
-  if (specifiedTypes.length > 1) {
+  if (commitsRangeInput && (commitsStartSha || commitsEndSha)) {
+    throw new Error('commits-range cannot be combined with commits-start-sha or commits-end-sha');
+  }
+  if (tagsRangeInput && (tagsStart || tagsEnd)) {
+    throw new Error('tags-range cannot be combined with tags-start or tags-end');
+  }
+
+  if (specifiedTypes.length > 1 && !allowMultiple) {
     throw new Error(
-      `Multiple changeset types specified: ${specifiedTypes.join(', ')}. Only one type is allowed.`
+      `Multiple changeset types specified: ${specifiedTypes.join(', ')}. Only one type is allowed. ` +
+        'Set allow-multiple-changesets to true or list them in changes to combine them.'
     );
   }
 
+  // Relative expressions resolve against the current time; the end defaults to now
+  const timeRange = timeRangeStart ? parseTimeRange(timeRangeStart, timeRangeEnd) : undefined;
+
+  // Git-style ranges; commit refs are resolved to SHAs at run time
+  const commitsRange = commitsRangeInput ? parseRefRange('commits-range', commitsRangeInput) : undefined;
+  const tagsRange = tagsRangeInput ? parseTagsRange(tagsRangeInput) : undefined;
+
   return {
     releasesCount: releasesCount ? parseInt(releasesCount, 10) : undefined,
-    timeRangeStart: timeRangeStart || undefined,
-    timeRangeEnd: timeRangeEnd || undefined,
+    timeRangeStart: timeRange?.start,
+    timeRangeEnd: timeRange?.end,
     commitsCount: commitsCount ? parseInt(commitsCount, 10) : undefined,
     commitsSinceSha: commitsSinceSha || undefined,
     commitsShas: commitsShas
@@ -123,7 +362,38 @@ function parseChangesetInputs(): ChangesetInput | undefined {
     commitsStartSha: commitsStartSha || undefined,
     commitsEndSha: commitsEndSha || undefined,
     commitsIncludeStart: commitsIncludeStart ? commitsIncludeStart === 'true' : undefined,
-    tagsStart: tagsStart || undefined,
-    tagsEnd: tagsEnd || undefined,
+    tagsStart: tagsRange?.start ?? (tagsStart || undefined),
+    tagsEnd: tagsRange ? tagsRange.end : tagsEnd || undefined,
+    commitsRange,
+    changes,
   };
 }
+
+/**
+ * Parse the changes input, a JSON or YAML list of change objects in the
+ * shape the doc.holiday API accepts
+ */
+function parseChangesList(value: string): Change[] | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  let changes: unknown;
+  try {
+    changes = parse(value);
+  } catch (error) {
+    throw new Error(`Failed to parse changes: ${(error as Error).message}`);
+  }
+
+  if (!Array.isArray(changes)) {
+    throw new Error('changes must be a JSON or YAML list of change objects');
+  }
+
+  try {
+    validateChanges(changes);
+  } catch (error) {
+    throw new Error(`changes: ${(error as Error).message}`);
+  }
+
+  return changes.length > 0 ? changes : undefined;
+}
@@ -0,0 +1,25 @@
+// src/labels.ts
+
+/**
+ * Find the first pull request label that suppresses documentation.
+ * GitHub label names are case-insensitive.
+ */
+export function findSkipLabel(prLabels: string[], skipLabels: string[] = []): string | undefined {
+  const skip = new Set(skipLabels.map(label => label.toLowerCase()));
+  return prLabels.find(label => skip.has(label.toLowerCase()));
+}
+
+/**
+ * Collect the publications mapped to the pull request's labels, in mapping order
+ */
+export function publicationsForLabels(
+  prLabels: string[],
+  labelPublications: Record<string, string[]> = {}
+): string[] {
+  const labels = new Set(prLabels.map(label => label.toLowerCase()));
+  const publications = Object.entries(labelPublications)
+    .filter(([label]) => labels.has(label.toLowerCase()))
+    .flatMap(([, mapped]) => mapped);
+
+  return Array.from(new Set(publications));
+}
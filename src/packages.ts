@@ -0,0 +1,57 @@
+// src/packages.ts
+import { parse } from 'yaml';
+import { isRecord, toList, toText } from './config';
+import { filterPaths } from './paths';
+import { PackageConfig } from './types';
+
+const PACKAGE_FIELDS = ['paths', 'publications', 'source-connection', 'labels'];
+
+/**
+ * Parse the `packages` input: a YAML or JSON mapping of package names to the
+ * directory globs they own and the publications they document
+ */
+export function parsePackagesConfig(value: string): PackageConfig[] {
+  let config: unknown;
+  try {
+    config = parse(value);
+  } catch (error) {
+    throw new Error(`Failed to parse packages: ${(error as Error).message}`);
+  }
+
+  if (!isRecord(config) || Object.keys(config).length === 0) {
+    throw new Error('packages must be a mapping of package names to their paths and publications');
+  }
+
+  return Object.entries(config).map(([name, entry]) => parsePackage(name, entry));
+}
+
+/**
+ * Return the packages that own at least one of the changed files
+ */
+export function findAffectedPackages(packages: PackageConfig[], files: string[]): PackageConfig[] {
+  return packages.filter(pkg => filterPaths(files, pkg.paths).length > 0);
+}
+
+function parsePackage(name: string, entry: unknown): PackageConfig {
+  if (!isRecord(entry)) {
+    throw new Error(`Package "${name}" must be a mapping of package fields`);
+  }
+
+  const unknownKeys = Object.keys(entry).filter(key => !PACKAGE_FIELDS.includes(key));
+  if (unknownKeys.length > 0) {
+    throw new Error(`Package "${name}" has unknown fields: ${unknownKeys.join(', ')}`);
+  }
+
+  const paths = toList(entry.paths, '\n');
+  if (!paths) {
+    throw new Error(`Package "${name}" is missing paths`);
+  }
+
+  return {
+    name,
+    paths,
+    publications: toList(entry.publications, ','),
+    sourceConnection: toText(entry['source-connection']) || undefined,
+    labels: toList(entry.labels, ','),
+  };
+}
@@ -0,0 +1,174 @@
+// src/paths.ts
+import * as github from '@actions/github';
+import { minimatch } from 'minimatch';
+import { Change } from './types';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+// Commit and compare responses list at most this many files
+const MAX_API_FILES = 300;
+
+/**
+ * Collect the files changed by a pull request or by the changes of a request.
+ * Returns undefined when the changes do not describe a range of commits that
+ * can be resolved (e.g. no changeset, or a first release), or when GitHub
+ * cannot list every changed file.
+ */
+export async function getChangedFiles(
+  token: string,
+  changes: Change[] | undefined,
+  pullRequestNumber?: number
+): Promise<string[] | undefined> {
+  const octokit = github.getOctokit(token);
+  const { owner, repo } = github.context.repo;
+
+  if (pullRequestNumber !== undefined) {
+    const files = await octokit.paginate(octokit.rest.pulls.listFiles, {
+      owner,
+      repo,
+      pull_number: pullRequestNumber,
+      per_page: 100,
+    });
+    return files.map(file => file.filename);
+  }
+
+  if (!changes || changes.length === 0) {
+    return undefined;
+  }
+
+  const files = new Set<string>();
+  for (const change of changes) {
+    const changeFiles = await getFilesForChange(octokit, change);
+    if (!changeFiles) {
+      return undefined;
+    }
+    changeFiles.forEach(file => files.add(file));
+  }
+
+  return Array.from(files);
+}
+
+/**
+ * Keep the files that match at least one `paths` pattern (all files when no
+ * patterns are given) and none of the `paths-ignore` patterns
+ */
+export function filterPaths(files: string[], paths?: string[], pathsIgnore?: string[]): string[] {
+  const matches = (file: string, patterns: string[]) =>
+    patterns.some(pattern => minimatch(file, pattern, { dot: true }));
+
+  return files.filter(
+    file => (!paths || matches(file, paths)) && !(pathsIgnore && matches(file, pathsIgnore))
+  );
+}
+
+async function getFilesForChange(octokit: Octokit, change: Change): Promise<string[] | undefined> {
+  const head = github.context.sha;
+
+  if ('releases' in change) {
+    return getReleaseFiles(octokit, change.releases.count);
+  }
+
+  if ('timeRange' in change) {
+    return getCommitListFiles(octokit, { since: change.timeRange.start, until: change.timeRange.end });
+  }
+
+  if ('tags' in change) {
+    return compareFiles(octokit, change.tags.start, change.tags.end || head);
+  }
+
+  const commits = change.commits;
+  if ('count' in commits) {
+    return getCommitListFiles(octokit, {}, commits.count);
+  }
+  if ('shas' in commits) {
+    return joinFiles(await Promise.all(commits.shas.map(sha => getCommitFiles(octokit, sha))));
+  }
+  if ('endSha' in commits) {
+    // Compare ranges exclude the base commit itself
+    const startFiles = commits.includeStartCommit !== false ? await getCommitFiles(octokit, commits.startSha) : [];
+    return joinFiles([startFiles, await compareFiles(octokit, commits.startSha, commits.endSha)]);
+  }
+  return compareFiles(octokit, commits.startSha, head);
+}
+
+/**
+ * Files changed by the latest `count` releases, compared against the release before them
+ */
+async function getReleaseFiles(octokit: Octokit, count: number): Promise<string[] | undefined> {
+  const { owner, repo } = github.context.repo;
+  const { data: releases } = await octokit.rest.repos.listReleases({ owner, repo, per_page: count + 1 });
+
+  if (releases.length <= count) {
+    return undefined;
+  }
+
+  return compareFiles(octokit, releases[count].tag_name, releases[0].tag_name);
+}
+
+/**
+ * Files changed by the commits on the current ref, optionally only the
+ * newest `count` of them
+ */
+async function getCommitListFiles(
+  octokit: Octokit,
+  options: { since?: string; until?: string },
+  count?: number
+): Promise<string[] | undefined> {
+  const { owner, repo } = github.context.repo;
+  let listed = 0;
+  const commits = (await octokit.paginate(
+    octokit.rest.repos.listCommits,
+    { owner, repo, sha: github.context.sha, per_page: 100, ...options },
+    (response, done) => {
+      listed += response.data.length;
+      if (count !== undefined && listed >= count) {
+        done();
+      }
+      return response.data;
+    }
+  )).slice(0, count);
+
+  if (commits.length === 0) {
+    return [];
+  }
+
+  // Commits are listed newest first; compare from the parent of the oldest one
+  const oldest = commits[commits.length - 1];
+  const base = oldest.parents[0]?.sha;
+  if (!base) {
+    return joinFiles(await Promise.all(commits.map(commit => getCommitFiles(octokit, commit.sha))));
+  }
+
+  return compareFiles(octokit, base, commits[0].sha);
+}
+
+async function getCommitFiles(octokit: Octokit, ref: string): Promise<string[] | undefined> {
+  const { owner, repo } = github.context.repo;
+  const { data } = await octokit.rest.repos.getCommit({ owner, repo, ref });
+  return completeFiles(data.files);
+}
+
+async function compareFiles(octokit: Octokit, base: string, head: string): Promise<string[] | undefined> {
+  const { owner, repo } = github.context.repo;
+  const { data } = await octokit.rest.repos.compareCommitsWithBasehead({
+    owner,
+    repo,
+    basehead: `${base}...${head}`,
+  });
+  return completeFiles(data.files);
+}
+
+/**
+ * File names of a commit or comparison, or undefined when GitHub truncated
+ * the list at its 300-file limit and the full set of changes is unknown
+ */
+function completeFiles(files: Array<{ filename: string }> | undefined): string[] | undefined {
+  if (files && files.length >= MAX_API_FILES) {
+    return undefined;
+  }
+  return (files ?? []).map(file => file.filename);
+}
+
+function joinFiles(lists: Array<string[] | undefined>): string[] | undefined {
+  return lists.some(list => list === undefined) ? undefined : (lists as string[][]).flat();
+}
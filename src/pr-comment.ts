@@ -0,0 +1,114 @@
+// src/pr-comment.ts
+import * as github from '@actions/github';
+import { PreviewJob } from './types';
+
+/**
+ * Hidden marker used to find and update the action's own PR comment
+ */
+export const JOB_COMMENT_MARKER = '<!-- doc-holiday-action:job -->';
+
+/**
+ * Hidden marker prefix of the preview comment, which also records the job id
+ * and the PR head commit it was created for
+ */
+export const PREVIEW_COMMENT_MARKER = '<!-- doc-holiday-action:preview';
+
+const PREVIEW_METADATA_PATTERN = /<!-- doc-holiday-action:preview job=(\S+) head=(\S+) -->/;
+
+/**
+ * Build the markdown body for a job status comment
+ */
+export function buildJobComment(jobId: string, jobState: string, jobUrl: string): string {
+  return [
+    JOB_COMMENT_MARKER,
+    '### 📚 doc.holiday documentation job',
+    '',
+    '| Job | State |',
+    '|-----|-------|',
+    `| [${jobId}](${jobUrl}) | \`${jobState}\` |`,
+  ].join('\n');
+}
+
+/**
+ * Build the markdown body for a preview job comment
+ */
+export function buildPreviewComment(
+  job: PreviewJob,
+  jobState: string,
+  jobUrl: string,
+  supersededJobId?: string
+): string {
+  const lines = [
+    `${PREVIEW_COMMENT_MARKER} job=${job.jobId} head=${job.headSha} -->`,
+    '### 📚 doc.holiday documentation preview',
+    '',
+    '| Job | State | Head |',
+    '|-----|-------|------|',
+    `| [${job.jobId}](${jobUrl}) | \`${jobState}\` | ${job.headSha.substring(0, 7)} |`,
+  ];
+
+  if (supersededJobId) {
+    lines.push('', `Supersedes job \`${supersededJobId}\` from an earlier push.`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Find the preview job recorded on a pull request, if any
+ */
+export async function findPreviewJob(token: string, prNumber: number): Promise<PreviewJob | undefined> {
+  const comment = await findMarkedComment(token, prNumber, PREVIEW_COMMENT_MARKER);
+  const match = comment?.body ? PREVIEW_METADATA_PATTERN.exec(comment.body) : null;
+
+  return match ? { jobId: match[1], headSha: match[2] } : undefined;
+}
+
+/**
+ * Create a PR comment, or update the existing one that carries the marker
+ */
+export async function upsertPullRequestComment(
+  token: string,
+  prNumber: number,
+  body: string,
+  marker: string = JOB_COMMENT_MARKER
+): Promise<void> {
+  const octokit = github.getOctokit(token);
+  const { owner, repo } = github.context.repo;
+
+  const existing = await findMarkedComment(token, prNumber, marker);
+
+  if (existing) {
+    await octokit.rest.issues.updateComment({
+      owner,
+      repo,
+      comment_id: existing.id,
+      body,
+    });
+    return;
+  }
+
+  await octokit.rest.issues.createComment({
+    owner,
+    repo,
+    issue_number: prNumber,
+    body,
+  });
+}
+
+/**
+ * Find the first comment on a pull request that carries the marker
+ */
+async function findMarkedComment(token: string, prNumber: number, marker: string) {
+  const octokit = github.getOctokit(token);
+  const { owner, repo } = github.context.repo;
+
+  const comments = await octokit.paginate(octokit.rest.issues.listComments, {
+    owner,
+    repo,
+    issue_number: prNumber,
+    per_page: 100,
+  });
+
+  return comments.find(comment => comment.body?.includes(marker));
+}
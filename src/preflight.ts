@@ -0,0 +1,158 @@
+// src/preflight.ts
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import { runGit } from './refs';
+import { Change, CommitsChange } from './types';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+// Octokit statuses meaning the ref does not exist (422 for malformed SHAs)
+const NOT_FOUND_STATUSES = [404, 422];
+
+/**
+ * Check that every commit and tag a changeset references exists, expanding
+ * short SHAs to full ones and confirming each range start is an ancestor of
+ * its end. The local checkout is tried first, then the GitHub API. Refs that
+ * cannot be checked either way (shallow clone without github-token, missing
+ * permissions) are warned about and sent as is.
+ */
+export async function verifyChanges(changes: Change[], githubToken: string | undefined): Promise<Change[]> {
+  const octokit = githubToken ? github.getOctokit(githubToken) : undefined;
+  const verified: Change[] = [];
+
+  for (const change of changes) {
+    if ('commits' in change) {
+      verified.push(await verifyCommits(octokit, change));
+    } else if ('tags' in change) {
+      await verifyTag(octokit, change.tags.start);
+      if (change.tags.end) {
+        await verifyTag(octokit, change.tags.end);
+      }
+      verified.push(change);
+    } else {
+      verified.push(change);
+    }
+  }
+
+  return verified;
+}
+
+async function verifyCommits(octokit: Octokit | undefined, change: CommitsChange): Promise<CommitsChange> {
+  const commits = change.commits;
+
+  if ('shas' in commits) {
+    const shas: string[] = [];
+    for (const sha of commits.shas) {
+      shas.push(await verifyCommit(octokit, sha));
+    }
+    return { commits: { shas } };
+  }
+
+  if ('endSha' in commits) {
+    const startSha = await verifyCommit(octokit, commits.startSha);
+    const endSha = await verifyCommit(octokit, commits.endSha);
+    await verifyAncestor(octokit, startSha, endSha);
+    return { commits: { ...commits, startSha, endSha } };
+  }
+
+  if ('startSha' in commits) {
+    return { commits: { startSha: await verifyCommit(octokit, commits.startSha) } };
+  }
+
+  return change;
+}
+
+/**
+ * Return the full SHA of a commit, failing when it does not exist
+ */
+async function verifyCommit(octokit: Octokit | undefined, sha: string): Promise<string> {
+  const local = await runGit(['rev-parse', '--verify', '--quiet', `${sha}^{commit}`]);
+  if (local) {
+    return local;
+  }
+
+  const data = await lookup(octokit, `commit ${sha}`, client =>
+    client.rest.repos.getCommit({ ...github.context.repo, ref: sha })
+  );
+  if (data === null) {
+    throw new Error(
+      `Commit ${sha} does not exist in ${repository()}. Check the SHA for typos and make sure the commit has been pushed.`
+    );
+  }
+  return data ? data.sha : sha;
+}
+
+async function verifyTag(octokit: Octokit | undefined, tag: string): Promise<void> {
+  if (await runGit(['rev-parse', '--verify', '--quiet', `refs/tags/${tag}`])) {
+    return;
+  }
+
+  const data = await lookup(octokit, `tag ${tag}`, client =>
+    client.rest.git.getRef({ ...github.context.repo, ref: `tags/${tag}` })
+  );
+  if (data === null) {
+    throw new Error(
+      `Tag ${tag} does not exist in ${repository()}. Check the tag name for typos and make sure it has been pushed.`
+    );
+  }
+}
+
+/**
+ * Fail when the range start is not an ancestor of its end, which usually
+ * means the two SHAs are swapped or on unrelated branches
+ */
+async function verifyAncestor(octokit: Octokit | undefined, start: string, end: string): Promise<void> {
+  let isAncestor: boolean | undefined;
+
+  const mergeBase = await runGit(['merge-base', start, end]);
+  if (mergeBase) {
+    isAncestor = mergeBase === start;
+  } else {
+    const data = await lookup(octokit, `range ${start}...${end}`, client =>
+      client.rest.repos.compareCommitsWithBasehead({
+        ...github.context.repo,
+        basehead: `${start}...${end}`,
+        per_page: 1,
+      })
+    );
+    isAncestor = data ? data.status === 'ahead' || data.status === 'identical' : undefined;
+  }
+
+  if (isAncestor === false) {
+    throw new Error(
+      `Commit range start ${start} is not an ancestor of end ${end}. Check that the start and end SHAs are not swapped.`
+    );
+  }
+}
+
+/**
+ * Run an API lookup. Returns null when the ref does not exist and undefined
+ * when it could not be checked.
+ */
+async function lookup<T>(
+  octokit: Octokit | undefined,
+  description: string,
+  request: (client: Octokit) => Promise<{ data: T }>
+): Promise<T | null | undefined> {
+  if (!octokit) {
+    core.warning(`Could not verify ${description}: not in the local checkout and github-token is not set`);
+    return undefined;
+  }
+
+  try {
+    const { data } = await request(octokit);
+    return data;
+  } catch (error) {
+    if (NOT_FOUND_STATUSES.includes((error as { status?: number }).status ?? 0)) {
+      return null;
+    }
+    const message = error instanceof Error ? error.message : 'An unknown error occurred';
+    core.warning(`Could not verify ${description}: ${message}`);
+    return undefined;
+  }
+}
+
+function repository(): string {
+  const { owner, repo } = github.context.repo;
+  return `${owner}/${repo}`;
+}
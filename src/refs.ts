@@ -0,0 +1,215 @@
+// src/refs.ts
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import { execFile } from 'child_process';
+import { ChangesetInput, RefRange } from './types';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+// "A..B", "A...B", "A.." or "..B" (git ref names cannot contain "..")
+const RANGE_PATTERN = /^(.*?)(\.\.\.?)(.*)$/;
+const REF_NAME_PATTERN = /^[^\s.][^\s]*$/;
+
+// HEAD, HEAD~2, main^2, @{upstream}, feature@{u}
+const RELATIVE_REF_PATTERN = /^(?:HEAD|@)(?:$|[~^@])|@\{|[~^]\d*$/;
+// Splits "main~2^2" into the base ref "main" and its navigation "~2^2"
+const NAVIGATION_PATTERN = /^(.*?)((?:[~^]\d*)*)$/;
+const UPSTREAM_PATTERN = /^(.*)@\{(?:upstream|u)\}$/;
+const SHA_PATTERN = /^[0-9a-f]{7,40}$/i;
+
+/**
+ * Parse git-style range syntax. A bare ref means "ref..HEAD" and an empty
+ * side of the range defaults to HEAD.
+ */
+export function parseRefRange(name: string, value: string): RefRange {
+  const match = RANGE_PATTERN.exec(value.trim());
+  const range = match
+    ? { start: match[1].trim() || 'HEAD', end: match[3].trim() || 'HEAD', symmetric: match[2] === '...' }
+    : { start: value.trim(), end: 'HEAD', symmetric: false };
+
+  if (!REF_NAME_PATTERN.test(range.start) || !REF_NAME_PATTERN.test(range.end)) {
+    throw new Error(`${name} must look like A..B, A...B or a single ref, got "${value}"`);
+  }
+
+  return range;
+}
+
+/**
+ * Parse tags-range into tag names. Both range forms select the changes
+ * between the two tags; an end of HEAD means up to the latest commit.
+ */
+export function parseTagsRange(value: string): { start: string; end?: string } {
+  const range = parseRefRange('tags-range', value);
+
+  if (isRelativeRef(range.start)) {
+    throw new Error(`tags-range must start at a tag, got "${range.start}"`);
+  }
+  if (range.end !== 'HEAD' && isRelativeRef(range.end)) {
+    throw new Error(`tags-range must end at a tag or HEAD, got "${range.end}"`);
+  }
+
+  return { start: range.start, end: range.end === 'HEAD' ? undefined : range.end };
+}
+
+/**
+ * Whether a ref is relative to the checkout (HEAD~N, @{upstream}, main^2)
+ * rather than a fixed name
+ */
+export function isRelativeRef(ref: string): boolean {
+  return RELATIVE_REF_PATTERN.test(ref);
+}
+
+/**
+ * Replace a commits-range with concrete start and end SHAs. Git ranges
+ * exclude the start commit, and A...B starts at the merge base of A and B.
+ */
+export async function resolveCommitRange(
+  changeset: ChangesetInput,
+  githubToken: string | undefined
+): Promise<ChangesetInput> {
+  const range = changeset.commitsRange;
+  if (!range) {
+    return changeset;
+  }
+
+  const end = await resolveRef(range.end, githubToken);
+  let start = await resolveRef(range.start, githubToken);
+  if (range.symmetric) {
+    start = await findMergeBase(start, end, githubToken);
+  }
+
+  core.info(`Resolved commits-range ${range.start}${range.symmetric ? '...' : '..'}${range.end} to ${start}..${end}`);
+
+  return {
+    ...changeset,
+    commitsRange: undefined,
+    commitsStartSha: start,
+    commitsEndSha: end,
+    commitsIncludeStart: changeset.commitsIncludeStart ?? false,
+  };
+}
+
+/**
+ * Resolve a ref to a commit SHA, trying the local checkout first and falling
+ * back to the GitHub API (shallow clones lack history for HEAD~N). SHAs are
+ * returned unchanged.
+ */
+export async function resolveRef(ref: string, githubToken: string | undefined): Promise<string> {
+  if (SHA_PATTERN.test(ref)) {
+    return ref;
+  }
+
+  const local = await runGit(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]);
+  if (local) {
+    return local;
+  }
+
+  if (!githubToken) {
+    throw new Error(
+      `Could not resolve "${ref}" in the local checkout. Fetch more history (fetch-depth: 0) or set github-token to resolve it through the GitHub API.`
+    );
+  }
+
+  try {
+    return await resolveRefThroughApi(github.getOctokit(githubToken), ref);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'An unknown error occurred';
+    throw new Error(`Could not resolve "${ref}": ${message}`);
+  }
+}
+
+/**
+ * Find the best common ancestor of two commits
+ */
+async function findMergeBase(start: string, end: string, githubToken: string | undefined): Promise<string> {
+  const local = await runGit(['merge-base', start, end]);
+  if (local) {
+    return local;
+  }
+
+  if (!githubToken) {
+    throw new Error(
+      `Could not find the merge base of ${start} and ${end} in the local checkout. Fetch more history (fetch-depth: 0) or set github-token.`
+    );
+  }
+
+  const octokit = github.getOctokit(githubToken);
+  const { owner, repo } = github.context.repo;
+  const { data } = await octokit.rest.repos.compareCommitsWithBasehead({
+    owner,
+    repo,
+    basehead: `${start}...${end}`,
+    per_page: 1,
+  });
+
+  return data.merge_base_commit.sha;
+}
+
+/**
+ * Resolve the base ref through the API, then follow ~N (first parents) and
+ * ^N (Nth parent) steps one commit at a time
+ */
+async function resolveRefThroughApi(octokit: Octokit, ref: string): Promise<string> {
+  const [, base, navigation] = NAVIGATION_PATTERN.exec(ref)!;
+  let sha = await resolveBaseRef(octokit, base);
+
+  for (const [, operator, countText] of navigation.matchAll(/([~^])(\d*)/g)) {
+    const count = countText === '' ? 1 : Number(countText);
+    if (operator === '~') {
+      for (let i = 0; i < count; i++) {
+        sha = await getParent(octokit, sha, 1);
+      }
+    } else if (count > 0) {
+      sha = await getParent(octokit, sha, count);
+    }
+  }
+
+  return sha;
+}
+
+async function resolveBaseRef(octokit: Octokit, base: string): Promise<string> {
+  if (base === '' || base === 'HEAD' || base === '@') {
+    return github.context.sha;
+  }
+
+  // Without a local checkout the upstream of a branch is the branch on GitHub
+  const upstream = UPSTREAM_PATTERN.exec(base);
+  const ref = upstream ? (upstream[1] && upstream[1] !== 'HEAD' ? upstream[1] : currentBranch()) : base;
+
+  const { owner, repo } = github.context.repo;
+  const { data } = await octokit.rest.repos.getCommit({ owner, repo, ref });
+  return data.sha;
+}
+
+async function getParent(octokit: Octokit, sha: string, index: number): Promise<string> {
+  const { owner, repo } = github.context.repo;
+  const { data } = await octokit.rest.repos.getCommit({ owner, repo, ref: sha });
+
+  const parent = data.parents[index - 1];
+  if (!parent) {
+    throw new Error(`commit ${sha} has no parent ${index}`);
+  }
+  return parent.sha;
+}
+
+function currentBranch(): string {
+  const { ref } = github.context;
+  const branch = process.env.GITHUB_HEAD_REF || (ref.startsWith('refs/heads/') ? ref.substring('refs/heads/'.length) : '');
+  if (!branch) {
+    throw new Error('@{upstream} needs a branch, but this run is not on one');
+  }
+  return branch;
+}
+
+/**
+ * Run git in the workspace, returning trimmed stdout or undefined on failure
+ */
+export function runGit(args: string[]): Promise<string | undefined> {
+  const cwd = process.env.GITHUB_WORKSPACE || process.cwd();
+
+  return new Promise(resolve => {
+    execFile('git', args, { cwd }, (error, stdout) => {
+      resolve(error ? undefined : stdout.trim() || undefined);
+    });
+  });
+}
@@ -0,0 +1,65 @@
+// src/release-notes.ts
+import * as github from '@actions/github';
+import { ReleaseUpdateMode } from './types';
+
+export const SECTION_START_MARKER = '<!-- doc-holiday:start -->';
+export const SECTION_END_MARKER = '<!-- doc-holiday:end -->';
+
+/**
+ * Combine the current release body with generated notes according to the mode
+ */
+export function mergeReleaseBody(
+  currentBody: string,
+  notes: string,
+  mode: ReleaseUpdateMode
+): string {
+  if (mode === 'replace') {
+    return notes;
+  }
+
+  if (mode === 'append') {
+    return currentBody ? `${currentBody}\n\n${notes}` : notes;
+  }
+
+  // Section mode: fill the marked section, adding it at the end if missing
+  const section = `${SECTION_START_MARKER}\n${notes}\n${SECTION_END_MARKER}`;
+  const start = currentBody.indexOf(SECTION_START_MARKER);
+  const end = currentBody.indexOf(SECTION_END_MARKER, start);
+
+  if (start === -1 || end === -1) {
+    return currentBody ? `${currentBody}\n\n${section}` : section;
+  }
+
+  return (
+    currentBody.slice(0, start) +
+    section +
+    currentBody.slice(end + SECTION_END_MARKER.length)
+  );
+}
+
+/**
+ * Write generated notes to a GitHub release body
+ */
+export async function updateReleaseBody(
+  token: string,
+  releaseId: number,
+  notes: string,
+  mode: ReleaseUpdateMode
+): Promise<void> {
+  const octokit = github.getOctokit(token);
+  const { owner, repo } = github.context.repo;
+
+  // Read the latest body rather than the event payload, in case it was edited since
+  const { data: release } = await octokit.rest.repos.getRelease({
+    owner,
+    repo,
+    release_id: releaseId,
+  });
+
+  await octokit.rest.repos.updateRelease({
+    owner,
+    repo,
+    release_id: releaseId,
+    body: mergeReleaseBody(release.body || '', notes, mode),
+  });
+}
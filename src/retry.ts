@@ -0,0 +1,67 @@
+// src/retry.ts
+
+export const DEFAULT_MAX_RETRIES = 2;
+export const DEFAULT_REQUEST_TIMEOUT = 30000; // 30 seconds
+
+const INITIAL_RETRY_DELAY = 1000; // 1 second
+const MAX_RETRY_DELAY = 60000; // 1 minute
+const JITTER = 0.25; // up to 25% added to each backoff delay
+
+// Request timeout, rate limiting and server errors are worth retrying;
+// other 4xx responses will fail the same way every time
+const RETRYABLE_STATUSES = [408, 429];
+
+/**
+ * Whether a response status may succeed if the request is sent again
+ */
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.includes(status) || status >= 500;
+}
+
+/**
+ * Milliseconds to wait before the next attempt. A Retry-After header (seconds
+ * or an HTTP date) is honored as is; otherwise the delay doubles with each
+ * attempt plus random jitter, so parallel workflow runs do not retry in lockstep.
+ * Both are capped at one minute.
+ */
+export function getRetryDelay(attempt: number, retryAfter?: string | null, now: number = Date.now()): number {
+  const requested = parseRetryAfter(retryAfter, now);
+  if (requested !== undefined) {
+    return Math.min(requested, MAX_RETRY_DELAY);
+  }
+
+  const delay = INITIAL_RETRY_DELAY * Math.pow(2, attempt - 1);
+  return Math.min(Math.round(delay + delay * JITTER * Math.random()), MAX_RETRY_DELAY);
+}
+
+function parseRetryAfter(value: string | null | undefined, now: number): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - now, 0);
+}
+
+/**
+ * fetch that aborts the request when no response arrives within the timeout
+ */
+export async function fetchWithTimeout(url: string, init: RequestInit, timeout: number): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error(`Request timed out after ${timeout / 1000}s`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
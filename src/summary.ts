@@ -0,0 +1,131 @@
+// src/summary.ts
+import * as core from '@actions/core';
+import { BatchJobResult, Change, DocHolidayRequest, JobSummaryDetails } from './types';
+
+/**
+ * Write a one-glance table of the resolved request and created job
+ */
+export async function writeJobSummary(details: JobSummaryDetails): Promise<void> {
+  core.summary
+    .addHeading('doc.holiday job', 2)
+    .addTable([
+      [{ data: 'Field', header: true }, { data: 'Value', header: true }],
+      ['Title', escapeHtml(details.title)],
+      ['Event type', escapeHtml(details.eventType)],
+      ['Source connection', escapeHtml(details.sourceConnection)],
+      ['Publications', formatList(details.publications)],
+      ['Labels', formatList(details.labels)],
+      ['Changeset', escapeHtml(describeChanges(details.changes))],
+      ['Changeset source', details.changesetSource],
+      ['Job', `<a href="${escapeHtml(details.jobUrl)}">${escapeHtml(details.jobId)}</a>`],
+      ['State', escapeHtml(details.jobState)],
+    ]);
+
+  await writeSummary();
+}
+
+/**
+ * Write a table of all jobs created in batch mode
+ */
+export async function writeBatchSummary(results: BatchJobResult[]): Promise<void> {
+  core.summary
+    .addHeading('doc.holiday jobs', 2)
+    .addTable([
+      [
+        { data: 'Name', header: true },
+        { data: 'Job', header: true },
+        { data: 'State', header: true },
+      ],
+      ...results.map(result => [
+        escapeHtml(result.name),
+        `<a href="${escapeHtml(result.url)}">${escapeHtml(result.id)}</a>`,
+        escapeHtml(result.state),
+      ]),
+    ]);
+
+  await writeSummary();
+}
+
+/**
+ * Write the request a dry run would have sent to the step summary
+ */
+export async function writeDryRunSummary(requests: DocHolidayRequest[]): Promise<void> {
+  core.summary
+    .addHeading('doc.holiday dry run', 2)
+    .addRaw('No job was created. The following request(s) would have been sent:', true);
+
+  for (const request of requests) {
+    core.summary.addCodeBlock(JSON.stringify(request, null, 2), 'json');
+  }
+
+  await writeSummary();
+}
+
+/**
+ * Describe a changes array in plain language
+ */
+export function describeChanges(changes: Change[] | undefined): string {
+  if (!changes || changes.length === 0) {
+    return 'Not specified (doc.holiday infers changes from the body)';
+  }
+
+  return changes.map(describeChange).join('; ');
+}
+
+function describeChange(change: Change): string {
+  if ('releases' in change) {
+    return `Last ${plural(change.releases.count, 'release')}`;
+  }
+
+  if ('timeRange' in change) {
+    return `Changes from ${change.timeRange.start} to ${change.timeRange.end}`;
+  }
+
+  if ('tags' in change) {
+    return change.tags.end
+      ? `Tags ${change.tags.start}..${change.tags.end}`
+      : `Changes since tag ${change.tags.start}`;
+  }
+
+  const commits = change.commits;
+  if ('count' in commits) {
+    return `Last ${plural(commits.count, 'commit')}`;
+  }
+  if ('shas' in commits) {
+    return `${plural(commits.shas.length, 'specific commit')}: ${commits.shas.join(', ')}`;
+  }
+  if ('endSha' in commits) {
+    const start = commits.includeStartCommit === false ? 'excluding' : 'including';
+    return `Commits ${commits.startSha}..${commits.endSha} (${start} start commit)`;
+  }
+  return `Commits since ${commits.startSha}`;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function formatList(items: string[] | undefined): string {
+  return items && items.length > 0 ? escapeHtml(items.join(', ')) : '—';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Flush the summary buffer. Missing summary support (e.g. when running
+ * outside GitHub Actions) is reported as a warning rather than failing the step.
+ */
+async function writeSummary(): Promise<void> {
+  try {
+    await core.summary.write();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'An unknown error occurred';
+    core.warning(`Failed to write step summary: ${message}`);
+  }
+}
@@ -0,0 +1,113 @@
+// src/tags.ts
+import * as github from '@actions/github';
+
+const SEMVER_PATTERN = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Parsed semantic version
+ */
+interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+/**
+ * Parse a tag name (with optional "v" prefix) as a semantic version
+ */
+export function parseSemver(tag: string): SemVer | undefined {
+  const match = SEMVER_PATTERN.exec(tag);
+  if (!match) {
+    return undefined;
+  }
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : [],
+  };
+}
+
+/**
+ * Compare two semantic versions following semver precedence rules
+ */
+export function compareSemver(a: SemVer, b: SemVer): number {
+  const versionDiff = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+  if (versionDiff !== 0) {
+    return versionDiff;
+  }
+
+  // A version without prerelease identifiers has higher precedence
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return b.prerelease.length - a.prerelease.length;
+  }
+
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    const left = a.prerelease[i];
+    const right = b.prerelease[i];
+
+    if (left === right) {
+      continue;
+    }
+    // A shorter set of identifiers has lower precedence
+    if (left === undefined) {
+      return -1;
+    }
+    if (right === undefined) {
+      return 1;
+    }
+
+    const leftNumeric = /^\d+$/.test(left);
+    const rightNumeric = /^\d+$/.test(right);
+
+    // Numeric identifiers compare numerically and sort before alphanumeric ones
+    if (leftNumeric && rightNumeric) {
+      return Number(left) - Number(right);
+    }
+    if (leftNumeric !== rightNumeric) {
+      return leftNumeric ? -1 : 1;
+    }
+    return left < right ? -1 : 1;
+  }
+
+  return 0;
+}
+
+/**
+ * Find the highest semver tag in the repository that precedes the given tag.
+ * Prerelease tags are ignored when the current tag is a stable release.
+ */
+export async function findPreviousTag(token: string, tag: string): Promise<string | undefined> {
+  const current = parseSemver(tag);
+  if (!current) {
+    throw new Error(`Tag ${tag} is not a semantic version (expected e.g. v1.4.0)`);
+  }
+
+  const octokit = github.getOctokit(token);
+  const { owner, repo } = github.context.repo;
+
+  const tags = await octokit.paginate(octokit.rest.repos.listTags, {
+    owner,
+    repo,
+    per_page: 100,
+  });
+
+  let previous: { name: string; version: SemVer } | undefined;
+
+  for (const { name } of tags) {
+    const version = parseSemver(name);
+    if (!version || compareSemver(version, current) >= 0) {
+      continue;
+    }
+    if (current.prerelease.length === 0 && version.prerelease.length > 0) {
+      continue;
+    }
+    if (!previous || compareSemver(version, previous.version) > 0) {
+      previous = { name, version };
+    }
+  }
+
+  return previous?.name;
+}
@@ -0,0 +1,122 @@
+// src/time-range.ts
+import * as github from '@actions/github';
+import { isIsoTimestamp } from './changes';
+import { ChangesetInput, ChangeWindow } from './types';
+
+export const SINCE_LAST_RELEASE = 'since-last-release';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// "36h", "7d", "2w"
+const DURATION_PATTERN = /^(\d+)([hdw])$/;
+const DURATION_UNITS: Record<string, number> = { h: HOUR, d: DAY, w: 7 * DAY };
+
+const EXPRESSION_HINT = 'an ISO 8601 timestamp or a relative expression (e.g. 7d, last-week, since-last-release)';
+
+/**
+ * Parse the time-range inputs into an ISO 8601 UTC window. The end defaults
+ * to now. A since-last-release start is kept as is and resolved later through
+ * the GitHub API by resolveTimeRange.
+ */
+export function parseTimeRange(start: string, end: string, now: Date = new Date()): ChangeWindow {
+  const window = {
+    start: start.trim() === SINCE_LAST_RELEASE ? SINCE_LAST_RELEASE : parseTimeExpression('time-range-start', start, now),
+    end: end ? parseTimeExpression('time-range-end', end, now) : formatTimestamp(now),
+  };
+
+  if (window.start !== SINCE_LAST_RELEASE) {
+    checkOrder(window);
+  }
+
+  return window;
+}
+
+/**
+ * Resolve a point in time: "now", a duration before now ("7d"), the start of
+ * a calendar period in UTC ("today", "yesterday", "last-week",
+ * "last-month") or an absolute timestamp
+ */
+export function parseTimeExpression(name: string, value: string, now: Date): string {
+  const expression = value.trim().toLowerCase();
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+
+  const duration = DURATION_PATTERN.exec(expression);
+  if (duration) {
+    return formatTimestamp(new Date(now.getTime() - Number(duration[1]) * DURATION_UNITS[duration[2]]));
+  }
+
+  switch (expression) {
+    case 'now':
+      return formatTimestamp(now);
+    case 'today':
+      return formatTimestamp(new Date(today));
+    case 'yesterday':
+      return formatTimestamp(new Date(today - DAY));
+    case 'last-week': {
+      // Weeks start on Monday
+      const daysSinceMonday = (now.getUTCDay() + 6) % 7;
+      return formatTimestamp(new Date(today - (daysSinceMonday + 7) * DAY));
+    }
+    case 'last-month':
+      return formatTimestamp(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1)));
+  }
+
+  if (expression === SINCE_LAST_RELEASE) {
+    throw new Error(`${name} cannot be ${SINCE_LAST_RELEASE}`);
+  }
+
+  if (!isIsoTimestamp(value.trim())) {
+    throw new Error(`${name} must be ${EXPRESSION_HINT}, got "${value}"`);
+  }
+
+  return formatTimestamp(new Date(Date.parse(value.trim())));
+}
+
+/**
+ * Replace a since-last-release start with the publish time of the most recent
+ * published release, skipping the release that triggered this run
+ */
+export async function resolveTimeRange(
+  changeset: ChangesetInput,
+  githubToken: string | undefined
+): Promise<ChangesetInput> {
+  if (changeset.timeRangeStart !== SINCE_LAST_RELEASE) {
+    return changeset;
+  }
+
+  if (!githubToken) {
+    throw new Error(`github-token is required when time-range-start is ${SINCE_LAST_RELEASE}`);
+  }
+
+  const octokit = github.getOctokit(githubToken);
+  const { owner, repo } = github.context.repo;
+  const currentReleaseId = github.context.payload.release?.id;
+
+  const { data: releases } = await octokit.rest.repos.listReleases({ owner, repo, per_page: 100 });
+  const lastRelease = releases.find(
+    release => !release.draft && !release.prerelease && release.published_at && release.id !== currentReleaseId
+  );
+
+  if (!lastRelease?.published_at) {
+    throw new Error(`time-range-start is ${SINCE_LAST_RELEASE} but no earlier published release was found`);
+  }
+
+  const window = { start: formatTimestamp(new Date(lastRelease.published_at)), end: changeset.timeRangeEnd! };
+  checkOrder(window);
+
+  return { ...changeset, timeRangeStart: window.start };
+}
+
+/**
+ * Format a date as ISO 8601 UTC, leaving out zero milliseconds
+ */
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace('.000Z', 'Z');
+}
+
+function checkOrder(window: ChangeWindow): void {
+  if (Date.parse(window.start) >= Date.parse(window.end)) {
+    throw new Error(`time-range-start (${window.start}) must be before time-range-end (${window.end})`);
+  }
+}
@@ -1,11 +1,25 @@
 // src/types.ts
 
+/**
+ * Event types with smart defaults derived from the GitHub event payload
+ */
+export type SmartEventType =
+  | 'release'
+  | 'merge'
+  | 'pull-request'
+  | 'push'
+  | 'tag'
+  | 'dispatch'
+  | 'schedule';
+
 /**
  * Parsed and validated action inputs
  */
 export interface ActionInputs {
   apiToken: string;
-  eventType?: 'release' | 'merge' | 'custom';
+  apiUrl?: string;
+  appUrl?: string;
+  eventType?: SmartEventType | 'custom';
   title?: string;
   body?: string;
   publications?: string[];
@@ -14,8 +28,31 @@ export interface ActionInputs {
   comments?: string[];
   relevantLinks?: string[];
   changeset?: ChangesetInput;
+  configFile?: string;
+  packages?: string;
+  dryRun?: boolean;
+  githubToken?: string;
+  scheduleSince?: string;
+  paths?: string[];
+  pathsIgnore?: string[];
+  skipLabels?: string[];
+  labelPublications?: Record<string, string[]>;
+  commentOnPr?: boolean;
+  enrichPr?: boolean;
+  updateRelease?: ReleaseUpdateMode;
+  waitForCompletion?: boolean;
+  pollInterval?: number;
+  timeout?: number;
+  idempotencyKey?: string;
+  maxRetries?: number;
+  requestTimeout?: number;
 }
 
+/**
+ * How generated release notes are written back to the GitHub release body
+ */
+export type ReleaseUpdateMode = 'replace' | 'append' | 'section';
+
 /**
  * Changeset specification from action inputs
  */
@@ -31,6 +68,55 @@ export interface ChangesetInput {
   commitsIncludeStart?: boolean;
   tagsStart?: string;
   tagsEnd?: string;
+  commitsRange?: RefRange;
+  changes?: Change[];
+}
+
+/**
+ * A git-style commit range (A..B or A...B) whose refs are resolved to SHAs
+ * before the changes are built
+ */
+export interface RefRange {
+  start: string;
+  end: string;
+  symmetric: boolean;
+}
+
+/**
+ * A monorepo package: the directory globs it owns and where its docs go
+ */
+export interface PackageConfig {
+  name: string;
+  paths: string[];
+  publications?: string[];
+  sourceConnection?: string;
+  labels?: string[];
+}
+
+/**
+ * Per-PR or per-release overrides declared in a doc-holiday block in the body
+ */
+export interface BodyDirectives {
+  publications?: string[];
+  labels?: string[];
+  comments?: string[];
+  changeset?: ChangesetInput;
+  skip?: boolean;
+}
+
+/**
+ * A single named job declared in a batch configuration file
+ */
+export interface JobConfig {
+  name: string;
+  title: string;
+  body: string;
+  publications?: string[];
+  sourceConnection?: string;
+  labels?: string[];
+  comments?: string[];
+  relevantLinks?: string[];
+  changeset?: ChangesetInput;
 }
 
 /**
@@ -40,9 +126,91 @@ export interface SmartDefaults {
   title: string;
   body: string;
   eventType?: 'release' | 'merge';
-  changes?: any[];
+  changes?: Change[];
+  publications?: string[];
+  labels?: string[];
+  window?: ChangeWindow;
+  pullRequestNumber?: number;
+  pullRequestLabels?: string[];
+  headSha?: string;
+  directives?: BodyDirectives;
+  releaseId?: number;
+  skipReason?: string;
+}
+
+/**
+ * Extra request context collected from a merged pull request
+ */
+export interface PullRequestContext {
+  relevantLinks: string[];
+  comments: string[];
+}
+
+/**
+ * Window of changes covered by a scheduled run. Bounds are commit SHAs or
+ * ISO 8601 timestamps.
+ */
+export interface ChangeWindow {
+  start: string;
+  end: string;
+}
+
+/**
+ * Changes from the latest releases
+ */
+export interface ReleasesChange {
+  releases: { count: number };
+}
+
+/**
+ * Changes within a time range (ISO 8601 timestamps)
+ */
+export interface TimeRangeChange {
+  timeRange: { start: string; end: string };
+}
+
+/**
+ * The latest commits
+ */
+export interface CommitCountChange {
+  commits: { count: number };
+}
+
+/**
+ * Commits since a SHA
+ */
+export interface CommitsSinceChange {
+  commits: { startSha: string };
+}
+
+/**
+ * Specific commits
+ */
+export interface CommitShasChange {
+  commits: { shas: string[] };
+}
+
+/**
+ * Commits between two SHAs
+ */
+export interface CommitRangeChange {
+  commits: { startSha: string; endSha: string; includeStartCommit?: boolean };
 }
 
+/**
+ * Changes since a tag, or between two tags
+ */
+export interface TagsChange {
+  tags: { start: string; end?: string };
+}
+
+export type CommitsChange = CommitCountChange | CommitsSinceChange | CommitShasChange | CommitRangeChange;
+
+/**
+ * A single entry of the request's changes array, discriminated by its key
+ */
+export type Change = ReleasesChange | TimeRangeChange | CommitsChange | TagsChange;
+
 /**
  * Doc.holiday API request body
  */
@@ -56,7 +224,7 @@ export interface DocHolidayRequest {
     comments?: string[];
     relevantLinks?: string[];
     eventType?: 'release' | 'merge';
-    changes?: any[];
+    changes?: Change[];
   };
 }
 
@@ -70,6 +238,31 @@ export interface DocHolidayResponse {
   state: 'requested' | 'running' | 'done' | 'errored';
 }
 
+/**
+ * Doc.holiday job result, available once a job is done
+ */
+export interface DocHolidayJobResult {
+  id: string;
+  releaseNotes?: string;
+}
+
+/**
+ * Polling options for waiting on job completion (milliseconds)
+ */
+export interface WaitOptions {
+  pollInterval: number;
+  timeout: number;
+}
+
+/**
+ * Options for creating a doc.holiday job
+ */
+export interface CreateJobOptions {
+  idempotencyKey?: string;
+  maxRetries?: number;
+  requestTimeout?: number; // milliseconds
+}
+
 /**
  * Action outputs
  */
@@ -78,3 +271,37 @@ export interface ActionOutputs {
   jobState: string;
   jobUrl: string;
 }
+
+/**
+ * Resolved request details shown in the step summary
+ */
+export interface JobSummaryDetails {
+  title: string;
+  eventType: string;
+  sourceConnection: string;
+  publications?: string[];
+  labels?: string[];
+  changes?: Change[];
+  changesetSource: 'manual inputs' | 'body directive' | 'smart defaults' | 'none';
+  jobId: string;
+  jobState: string;
+  jobUrl: string;
+}
+
+/**
+ * Result of a job created in batch mode
+ */
+export interface BatchJobResult {
+  name: string;
+  id: string;
+  state: string;
+  url: string;
+}
+
+/**
+ * Preview job recorded in a pull request comment, with the PR head commit it covers
+ */
+export interface PreviewJob {
+  jobId: string;
+  headSha: string;
+}
@@ -0,0 +1,44 @@
+// src/workflow-runs.ts
+import * as github from '@actions/github';
+
+/**
+ * A completed run of the current workflow
+ */
+interface PreviousRun {
+  id: number;
+  headSha: string;
+  createdAt: string;
+}
+
+/**
+ * Find the most recent successful run of the current workflow on the same
+ * branch, created before the current run
+ */
+export async function findLastSuccessfulRun(token: string): Promise<PreviousRun | undefined> {
+  const octokit = github.getOctokit(token);
+  const { owner, repo } = github.context.repo;
+
+  const { data: currentRun } = await octokit.rest.actions.getWorkflowRun({
+    owner,
+    repo,
+    run_id: github.context.runId,
+  });
+
+  const { data } = await octokit.rest.actions.listWorkflowRuns({
+    owner,
+    repo,
+    workflow_id: currentRun.workflow_id,
+    branch: currentRun.head_branch ?? undefined,
+    status: 'success',
+    per_page: 20,
+  });
+
+  const currentCreatedAt = Date.parse(currentRun.created_at);
+  const previous = data.workflow_runs.find(
+    run => run.id !== currentRun.id && Date.parse(run.created_at) < currentCreatedAt
+  );
+
+  return previous
+    ? { id: previous.id, headSha: previous.head_sha, createdAt: previous.created_at }
+    : undefined;
+}